@@ -0,0 +1,27 @@
+/**
+ * Share target of the installed app, loaded into the generated service worker
+ * Shares arrive as a POST that the static server can't answer, so the shared text and image
+ * are parked in a cache and the app is opened to pick them up (see src/utils/launch.ts)
+ */
+
+const SHARE_CACHE_NAME = 'share-target'
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url)
+  const actionUrl = new URL('share-target', self.registration.scope)
+  if (event.request.method !== 'POST' || url.pathname !== actionUrl.pathname) return
+
+  event.respondWith((async () => {
+    const formData = await event.request.formData()
+    const cache = await caches.open(SHARE_CACHE_NAME)
+    const fields = ['title', 'text', 'url'].map(name => formData.get(name) || '').join(' ')
+
+    await cache.put(new URL('share-target/fields', self.registration.scope), new Response(fields))
+    const image = formData.get('image')
+    if (image instanceof File) {
+      await cache.put(new URL('share-target/image', self.registration.scope), new Response(image))
+    }
+
+    return Response.redirect(new URL('?share-target', self.registration.scope).href, 303)
+  })())
+})
@@ -0,0 +1,103 @@
+import { computed, toRaw, type Ref } from 'vue'
+import { useCurrentTime } from './useTimeSource'
+import { getCodePeriod, getCodeCounter, generateCodeForCounter } from '../utils/generators'
+import type { TOTPAccount } from '../types'
+
+// Codes per account object and counter value. Edits replace the account object, so a new
+// object never reuses codes generated from old settings, and entries go away with the vault data
+const codeCache = new WeakMap<TOTPAccount, Map<number, string>>()
+
+// The upcoming code is shown during the last part of the period, at most this many seconds
+const NEXT_CODE_PREVIEW_SECONDS = 10
+
+// Copying this close to the end of the period copies the upcoming code instead
+export const NEXT_CODE_COPY_SECONDS = 2
+
+function getCachedCode(account: TOTPAccount, counter: number): string {
+  const raw = toRaw(account)
+  let codes = codeCache.get(raw)
+  if (!codes) {
+    codes = new Map()
+    codeCache.set(raw, codes)
+  }
+
+  let code = codes.get(counter)
+  if (code === undefined) {
+    code = generateCodeForCounter(raw, counter)
+
+    // Only the current and neighbouring counters are ever shown
+    for (const cached of codes.keys()) {
+      if (Math.abs(cached - counter) > 1) {
+        codes.delete(cached)
+      }
+    }
+    codes.set(counter, code)
+  }
+
+  return code
+}
+
+/**
+ * Code to copy for an account outside a component, e.g. from a keyboard shortcut
+ * Follows the same rule as `getCodeToCopy` from `useAccountCode`
+ * @param {TOTPAccount} account - Account to copy from
+ * @param {number} timestamp - Corrected current time in milliseconds
+ */
+export function getAccountCodeToCopy(account: TOTPAccount, timestamp: number): string {
+  const counter = getCodeCounter(account, timestamp)
+  if (account.type === 'hotp') return getCachedCode(account, counter)
+
+  const period = getCodePeriod(account)
+  const timeRemaining = period - (Math.floor(timestamp / 1000) % period)
+  return getCachedCode(account, timeRemaining <= NEXT_CODE_COPY_SECONDS ? counter + 1 : counter)
+}
+
+/**
+ * Composable for an account's current code and countdown
+ * Codes are only generated when the counter or time step changes, not on every tick
+ * @param {Ref<TOTPAccount>} account - Account to show
+ */
+export function useAccountCode(account: Ref<TOTPAccount>) {
+  const currentTime = useCurrentTime()
+
+  // Period after which time-based codes change (fixed for non-standard variants)
+  const period = computed(() => getCodePeriod(account.value))
+
+  // Computed values only notify dependents when they change, so this triggers once per period
+  const counter = computed(() => getCodeCounter(account.value, currentTime.value))
+
+  const code = computed(() => getCachedCode(account.value, counter.value))
+
+  // Time-based codes only; generated lazily the first time it is shown in a period
+  const nextCode = computed(() => {
+    if (account.value.type === 'hotp') return null
+    return getCachedCode(account.value, counter.value + 1)
+  })
+
+  // Seconds left in the current period
+  const timeRemaining = computed(() => {
+    const elapsed = Math.floor(currentTime.value / 1000) % period.value
+    return period.value - elapsed
+  })
+
+  // Preview the next code in the last third of the period
+  const showNextCode = computed(() => {
+    return account.value.type !== 'hotp' &&
+           timeRemaining.value <= Math.min(NEXT_CODE_PREVIEW_SECONDS, period.value / 3)
+  })
+
+  // The code worth copying right now: the current one would expire before it can be used
+  const getCodeToCopy = (): string => {
+    return nextCode.value && timeRemaining.value <= NEXT_CODE_COPY_SECONDS ? nextCode.value : code.value
+  }
+
+  return {
+    code,
+    nextCode,
+    counter,
+    period,
+    timeRemaining,
+    showNextCode,
+    getCodeToCopy
+  }
+}
@@ -0,0 +1,138 @@
+import { watch, onMounted, onUnmounted, type Ref } from 'vue'
+import { postTabMessage, onTabMessage } from '../utils/tabSync'
+import type { AutoLockSettings } from '../types'
+
+export const DEFAULT_AUTO_LOCK_SETTINGS: AutoLockSettings = {
+  idleTimeoutMinutes: 5,
+  hiddenTimeoutSeconds: 60,
+  lockOnSuspend: true,
+  maxSessionMinutes: null
+}
+
+// Interactions that count as activity for the idle timeout
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const
+
+// How often the timers are checked while unlocked
+const CHECK_INTERVAL_MS = 1000
+
+// Activity is shared with other tabs at most this often
+const ACTIVITY_BROADCAST_INTERVAL_MS = 10000
+
+// Idle and session limits lock every tab; being hidden or suspended only locks the tab it applies to
+export type LockScope = 'all-tabs' | 'this-tab'
+
+/**
+ * Composable that locks the vault according to the auto-lock policies
+ * Timers are compared against timestamps rather than relying on setTimeout alone,
+ * because browsers throttle timers in background tabs and while the device sleeps.
+ * Activity in any tab of the app keeps the vault from idling out
+ * @param {Ref<boolean>} isUnlocked - Vault unlock state
+ * @param {Ref<AutoLockSettings>} settings - Active auto-lock policies
+ * @param {Function} onLock - Called when a policy expires, with the tabs it applies to
+ */
+export function useAutoLock(isUnlocked: Ref<boolean>, settings: Ref<AutoLockSettings>, onLock: (scope: LockScope) => void): void {
+  let unlockedAt = 0
+  let lastActivityAt = 0
+  let lastBroadcastAt = 0
+  let hiddenAt: number | null = null
+  let checkInterval: ReturnType<typeof setInterval> | null = null
+
+  const lock = (scope: LockScope): void => {
+    if (isUnlocked.value) {
+      onLock(scope)
+    }
+  }
+
+  const checkPolicies = (): void => {
+    if (!isUnlocked.value) return
+
+    const now = Date.now()
+    const { idleTimeoutMinutes, hiddenTimeoutSeconds, maxSessionMinutes } = settings.value
+
+    if (idleTimeoutMinutes !== null && now - lastActivityAt >= idleTimeoutMinutes * 60000) {
+      lock('all-tabs')
+    } else if (hiddenTimeoutSeconds !== null && hiddenAt !== null && now - hiddenAt >= hiddenTimeoutSeconds * 1000) {
+      lock('this-tab')
+    } else if (maxSessionMinutes !== null && now - unlockedAt >= maxSessionMinutes * 60000) {
+      lock('all-tabs')
+    }
+  }
+
+  const handleActivity = (): void => {
+    lastActivityAt = Date.now()
+
+    if (isUnlocked.value && lastActivityAt - lastBroadcastAt >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+      lastBroadcastAt = lastActivityAt
+      postTabMessage({ type: 'activity' })
+    }
+  }
+
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      hiddenAt = Date.now()
+      if (settings.value.hiddenTimeoutSeconds === 0) {
+        lock('this-tab')
+      }
+    } else {
+      // Timers may not have run while hidden, so check before the codes become visible again
+      checkPolicies()
+      hiddenAt = null
+      handleActivity()
+    }
+  }
+
+  const handleSuspend = (): void => {
+    if (settings.value.lockOnSuspend) {
+      lock('this-tab')
+    }
+  }
+
+  const handlePageHide = (event: PageTransitionEvent): void => {
+    // Only pages kept in the back/forward cache can be shown again with the vault unlocked
+    if (event.persisted) {
+      handleSuspend()
+    }
+  }
+
+  watch(isUnlocked, (unlocked) => {
+    if (checkInterval) {
+      clearInterval(checkInterval)
+      checkInterval = null
+    }
+
+    if (unlocked) {
+      unlockedAt = Date.now()
+      lastActivityAt = unlockedAt
+      hiddenAt = document.visibilityState === 'hidden' ? unlockedAt : null
+      checkInterval = setInterval(checkPolicies, CHECK_INTERVAL_MS)
+    }
+  }, { immediate: true })
+
+  // Policy changes apply straight away
+  watch(settings, checkPolicies, { deep: true })
+
+  let stopListening: (() => void) | null = null
+
+  onMounted(() => {
+    stopListening = onTabMessage((message) => {
+      if (message.type === 'activity') {
+        lastActivityAt = Date.now()
+      }
+    })
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true, capture: true }))
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    document.addEventListener('freeze', handleSuspend)
+    window.addEventListener('pagehide', handlePageHide)
+  })
+
+  onUnmounted(() => {
+    if (checkInterval) {
+      clearInterval(checkInterval)
+    }
+    stopListening?.()
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity, { capture: true }))
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    document.removeEventListener('freeze', handleSuspend)
+    window.removeEventListener('pagehide', handlePageHide)
+  })
+}
@@ -0,0 +1,91 @@
+import { onMounted, onUnmounted, type Ref } from 'vue'
+
+export interface KeyboardShortcut {
+  // Keys as shown in the help overlay, e.g. ['Ctrl', 'K']
+  keys: string[]
+  description: string
+  // KeyboardEvent.key to match (case-insensitive for letters)
+  key: string
+  // Requires Ctrl, or ⌘ on Apple devices
+  mod?: boolean
+  // Also active while typing in the search field
+  allowInSearch?: boolean
+  run: () => void
+}
+
+// An action offered in the command palette
+export interface Command {
+  id: string
+  label: string
+  // Extra words the palette matches, e.g. synonyms
+  keywords?: string
+  // Keys of a shortcut for the same action, shown next to the label
+  keys?: string[]
+  run: () => void
+}
+
+interface KeyboardShortcutOptions {
+  // Shortcuts are ignored while this is false, e.g. when a dialog handles its own keys
+  isEnabled: Ref<boolean>
+  // Search field that keeps some shortcuts (arrows, Enter) active while focused
+  searchInput: () => HTMLElement | null | undefined
+  // Called for a printable key typed outside any input, before the character is inserted
+  onTypeAhead?: () => void
+}
+
+export const isApplePlatform = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+// Label of the modifier key for shortcuts with `mod`
+export const MOD_KEY_LABEL = isApplePlatform ? '⌘' : 'Ctrl'
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// Enter and Space on these activate the element itself
+function isActivatable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && ['BUTTON', 'A', 'SUMMARY'].includes(target.tagName)
+}
+
+function matches(shortcut: KeyboardShortcut, event: KeyboardEvent): boolean {
+  const hasMod = isApplePlatform ? event.metaKey : event.ctrlKey
+  return event.key.toLowerCase() === shortcut.key.toLowerCase() && Boolean(shortcut.mod) === hasMod
+}
+
+/**
+ * Composable for app-wide keyboard shortcuts
+ * Keys typed into other inputs are left alone, so shortcuts never get in the way of forms
+ * @param {KeyboardShortcut[]} shortcuts - Shortcuts to handle, also listed in the help overlay
+ * @param {KeyboardShortcutOptions} options - When to handle them and where typing goes
+ */
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[], options: KeyboardShortcutOptions): void {
+  const handleKeydown = (event: KeyboardEvent): void => {
+    if (!options.isEnabled.value || event.defaultPrevented || event.isComposing) return
+
+    const inSearch = event.target === options.searchInput()
+    if (isEditable(event.target) && !inSearch) return
+    if (isActivatable(event.target) && (event.key === 'Enter' || event.key === ' ')) return
+
+    const shortcut = shortcuts.find(candidate => matches(candidate, event))
+    if (shortcut && (!inSearch || shortcut.allowInSearch || shortcut.mod)) {
+      event.preventDefault()
+      shortcut.run()
+      return
+    }
+
+    // Typing anywhere starts a search; focusing now lets the browser insert the character there
+    const isPrintable = event.key.length === 1 && event.key !== ' ' && !event.ctrlKey && !event.metaKey && !event.altKey
+    if (isPrintable && !inSearch && !isEditable(event.target)) {
+      options.onTypeAhead?.()
+    }
+  }
+
+  onMounted(() => {
+    window.addEventListener('keydown', handleKeydown)
+  })
+
+  onUnmounted(() => {
+    window.removeEventListener('keydown', handleKeydown)
+  })
+}
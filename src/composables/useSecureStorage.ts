@@ -1,71 +1,445 @@
-import { ref, watch, type Ref } from 'vue'
-import { encryptData, decryptData } from '../utils/crypto'
+import { ref, computed, shallowReactive, watch, type Ref } from 'vue'
+import { sealEnvelope, openEnvelope, openLegacyEnvelope, isLegacyEnvelope } from '../utils/crypto'
+import { generateDataKey, wrapDataKey, unwrapDataKey, unwrapLegacyDataKey, loadKeyring, saveKeyring, removeKeyring, type KeySlot } from '../utils/keyring'
+import { getStorageAdapter, createLocalStorageAdapter, ENCRYPTED_PREFIX, type StorageAdapter, type StorageChanges } from '../utils/storage'
+import { createVaultStorageAdapter, loadSelectedVaultId, DEFAULT_VAULT_ID } from '../utils/vaults'
+import { getStoredPasskeyCredential, clearStoredPasskeyCredential } from '../utils/webauthn'
+import { postTabMessage, onTabMessage, withVaultLock } from '../utils/tabSync'
+import { mergeRecords, mergeRecordCopies } from '../utils/merge'
 
-// Global state for passkey authentication
-const isUnlocked: Ref<boolean> = ref(false)
-const currentPasskeyKeyMaterial: Ref<ArrayBuffer | null> = ref(null)
+// Vault shown in this tab; tabs may each show a different one
+const selectedVaultId: Ref<string> = ref(loadSelectedVaultId())
+// Data keys of the vaults unlocked in this tab, by vault ID, so each vault locks and unlocks on its own
+const vaultKeys = shallowReactive(new Map<string, ArrayBuffer>())
+// Unlock state and data key of the selected vault, available once one of its key slots has been unlocked
+const isUnlocked = computed(() => vaultKeys.has(selectedVaultId.value))
+const currentPasskeyKeyMaterial = computed(() => vaultKeys.get(selectedVaultId.value) ?? null)
+// Unlock methods enrolled for the selected vault
+const keySlots: Ref<KeySlot[]> = ref(loadKeyring(selectedVaultId.value)?.slots || [])
+
+// Writes to the vault run one after another, so an older snapshot can't overwrite a newer
+// one and nothing is written under a data key that is being rotated out. The vault lock
+// extends this to writes from other tabs
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(() => withVaultLock(task))
+  writeQueue = result.catch(() => undefined)
+  return result
+}
+
+// Storage of one vault, with keys relative to the vault. Writes run in the queue, where the
+// selected vault can't change; loads pass the vault they started with
+async function getVaultAdapter(vaultId: string = selectedVaultId.value): Promise<StorageAdapter> {
+  return createVaultStorageAdapter(await getStorageAdapter(), vaultId)
+}
+
+// Copies of a stored value (and of its records) that a session on the localStorage fallback
+// wrote after the database's copy; migrateFromLocalStorage leaves them to be merged on unlock
+async function getFallbackCopies(vaultId: string, key: string): Promise<Map<string, string>> {
+  if ((await getStorageAdapter()).backend === 'localstorage') return new Map()
+
+  const fallback = createVaultStorageAdapter(createLocalStorageAdapter(), vaultId)
+  return new Map((await fallback.entries(key)).filter(([storageKey, value]) =>
+    (storageKey === key || storageKey.startsWith(`${key}/`)) && value.startsWith(ENCRYPTED_PREFIX)))
+}
+
+// Details of an unlock method before its copy of the data key is created
+export type NewKeySlot = Omit<KeySlot, 'id' | 'createdAt' | 'wrappedKey'>
+
+interface SecureStorageOptions {
+  // Store each array item (identified by its `id`) as a separately encrypted record
+  collection?: boolean
+  // Keep this many encrypted snapshots of the data as it was unlocked, taken before the first change
+  snapshots?: number
+}
+
+// A previous version of stored data, see `listSnapshots`
+export interface Snapshot<T> {
+  id: string
+  createdAt: number
+  data: T
+}
 
 interface SecureStorageReturn<T> {
   data: Ref<T>
   isLoading: Ref<boolean>
   error: Ref<string | null>
+  // Whether the data was read from storage; until then nothing is saved
+  isLoaded: Ref<boolean>
   loadData: () => Promise<void>
   saveData: () => Promise<void>
-  isDataEncrypted: () => boolean
-  isUnlocked: Ref<boolean>
-  currentPasskeyKeyMaterial: Ref<ArrayBuffer | null>
+  restoreSnapshot: (snapshotId: string) => Promise<void>
+  isDataEncrypted: () => Promise<boolean>
+  isUnlocked: Readonly<Ref<boolean>>
+  currentPasskeyKeyMaterial: Readonly<Ref<ArrayBuffer | null>>
   isCryptoAvailable: Ref<boolean>
 }
 
+// Item of a collection, stored as its own record under its id
+interface CollectionItem {
+  id: string | number
+}
+
+// Stored under a collection's own key: ids of its records in order
+interface CollectionIndex {
+  ids: string[]
+  // When each record was last written, to settle a record changed in two tabs at once
+  modifiedAt?: Record<string, number>
+}
+
+// Records of a collection as stored, by id in index order
+interface StoredCollection {
+  records: Map<string, string>
+  envelopes: Map<string, string>
+  modifiedAt: Record<string, number>
+  // Decrypted index, or null when records outside it were found
+  index: string | null
+}
+
+function getRecordKey(key: string, id: string): string {
+  return `${key}/${id}`
+}
+
+// Snapshots live outside the collection's own prefix, so they are never read as records
+function getSnapshotPrefix(key: string): string {
+  return `snapshots/${key}/`
+}
+
+/**
+ * Seal a snapshot of stored data, and pick the oldest snapshots to remove beyond the limit
+ */
+async function createSnapshotChanges(adapter: StorageAdapter, key: string, json: string, dataKey: ArrayBuffer, limit: number): Promise<StorageChanges> {
+  const prefix = getSnapshotPrefix(key)
+  const createdAt = Date.now()
+  // Ids start with the time, so they sort oldest first
+  const snapshotKey = `${prefix}${createdAt}-${crypto.randomUUID()}`
+  const envelope = await sealEnvelope(`{"createdAt":${createdAt},"data":${json}}`, dataKey, snapshotKey)
+
+  const existing = (await adapter.entries(prefix)).map(([storageKey]) => storageKey).sort()
+  return {
+    set: [[snapshotKey, `${ENCRYPTED_PREFIX}${envelope}`]],
+    remove: existing.slice(0, Math.max(0, existing.length + 1 - limit))
+  }
+}
+
+async function readSnapshot<T>(storageKey: string, stored: string, dataKey: ArrayBuffer): Promise<Snapshot<T>> {
+  const { createdAt, data } = JSON.parse(await openEnvelope(stored.substring(ENCRYPTED_PREFIX.length), dataKey, storageKey))
+  return { id: storageKey.substring(storageKey.lastIndexOf('/') + 1), createdAt, data }
+}
+
 /**
- * Composable for secure encrypted localStorage with passkey authentication
- * @param {string} key - localStorage key
+ * List the snapshots kept for a storage key, newest first
+ * Snapshots that can't be decrypted are skipped
+ * @param {string} key - Storage key the snapshots were taken of
+ */
+export async function listSnapshots<T = unknown>(key: string): Promise<Snapshot<T>[]> {
+  const dataKey = currentPasskeyKeyMaterial.value
+  if (!dataKey) {
+    throw new Error('Unlock the vault to see its snapshots')
+  }
+
+  const adapter = await getVaultAdapter()
+  const snapshots: Snapshot<T>[] = []
+  for (const [storageKey, stored] of await adapter.entries(getSnapshotPrefix(key))) {
+    try {
+      snapshots.push(await readSnapshot<T>(storageKey, stored, dataKey))
+    } catch (err) {
+      console.warn(`Skipping unreadable snapshot ${storageKey}:`, err)
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Composable for secure encrypted storage with passkey authentication
+ * @param {string} key - Storage key
  * @param {T} defaultValue - default value if no data exists
+ * @param {SecureStorageOptions} options - Storage layout options
  * @returns {SecureStorageReturn<T>} Reactive storage object with encryption
  */
-export function useSecureStorage<T = any>(key: string, defaultValue: T = null as T): SecureStorageReturn<T> {
-  const data = ref<T>(defaultValue)
+export function useSecureStorage<T = any>(key: string, defaultValue: T = null as T, options: SecureStorageOptions = {}): SecureStorageReturn<T> {
+  // Fresh copy of the default, so mutations never leak into it (and from there into a later lock/unlock)
+  const createDefault = (): T => defaultValue === null ? defaultValue : JSON.parse(JSON.stringify(defaultValue))
+
+  const data = ref<T>(createDefault())
   const isLoading = ref<boolean>(false)
+  const isLoaded = ref<boolean>(false)
   const error = ref<string | null>(null)
   const isCryptoAvailable: Ref<boolean> = ref(false)
 
+  // Collections: plain JSON of each record and of the index as last read or written, so a
+  // save only re-encrypts what changed. Envelopes and write times are kept alongside, so
+  // records another tab didn't touch aren't decrypted again
+  let savedRecords = new Map<string, string>()
+  let savedEnvelopes = new Map<string, string>()
+  let savedModifiedAt: Record<string, number> = {}
+  let savedIndex: string | null = null
+  // When the data in memory first changed since it was last saved
+  let localChangeTime: number | null = null
+  // Set when restoring a snapshot: stored records are replaced instead of merged
+  let replaceStored = false
+  // JSON of the data as loaded, snapshotted before it is first changed
+  let snapshotBase: string | null = null
+  // Vault the data was loaded from; it is only ever saved back there
+  let loadedVaultId: string | null = null
+
   isCryptoAvailable.value = typeof crypto !== 'undefined' &&
                               typeof crypto.subtle !== 'undefined' &&
                               typeof crypto.getRandomValues !== 'undefined'
 
   /**
-   * Load data from localStorage (with decryption if needed)
+   * Decrypt a stored value with the vault key; the envelope must have been sealed for its storage key
+   * @param {boolean} legacy - Read a value stored before the versioned envelope, to upgrade it on load
+   */
+  const decryptValue = async (stored: string, storageKey: string, dataKey: ArrayBuffer, legacy = false): Promise<string> => {
+    const envelope = stored.substring(ENCRYPTED_PREFIX.length)
+    try {
+      return await (legacy ? openLegacyEnvelope(envelope, dataKey) : openEnvelope(envelope, dataKey, storageKey))
+    } catch (decryptError: unknown) {
+      const errorMessage = decryptError instanceof Error ? decryptError.message : 'Unknown error'
+      if (errorMessage.includes('authentication failed') || errorMessage.includes('Failed to decrypt')) {
+        throw new Error('Invalid passkey authentication or corrupted data')
+      }
+      throw decryptError
+    }
+  }
+
+  /**
+   * Read the records of a collection in index order
+   * Records missing from the index (left by an interrupted save) are kept rather than dropped
+   * @param {string} indexJson - Decrypted index
+   */
+  const readCollection = async (indexJson: string, dataKey: ArrayBuffer, adapter: StorageAdapter): Promise<StoredCollection> => {
+    const parsed = JSON.parse(indexJson)
+    // Collections stored as one array are upgraded on load; their items are all in memory already
+    const index: CollectionIndex = Array.isArray(parsed) ? { ids: [] } : parsed
+    const stored = new Map(await adapter.entries(`${key}/`))
+    const indexedKeys = new Set(index.ids.map(id => getRecordKey(key, id)))
+    const orphanIds = [...stored.keys()]
+      .filter(recordKey => !indexedKeys.has(recordKey))
+      .map(recordKey => recordKey.substring(key.length + 1))
+
+    const records = new Map<string, string>()
+    const envelopes = new Map<string, string>()
+    for (const id of [...index.ids, ...orphanIds]) {
+      const recordKey = getRecordKey(key, id)
+      const envelope = stored.get(recordKey)
+      if (!envelope) {
+        console.warn(`Missing record ${recordKey}`)
+        continue
+      }
+
+      const cached = savedEnvelopes.get(id) === envelope ? savedRecords.get(id) : undefined
+      records.set(id, cached ?? await decryptValue(envelope, recordKey, dataKey))
+      envelopes.set(id, envelope)
+    }
+
+    return {
+      records,
+      envelopes,
+      modifiedAt: index.modifiedAt || {},
+      index: orphanIds.length === 0 && !Array.isArray(parsed) ? indexJson : null
+    }
+  }
+
+  /**
+   * Read the collection as currently stored, e.g. after another tab wrote to it
+   */
+  const readStoredCollection = async (dataKey: ArrayBuffer, adapter: StorageAdapter): Promise<StoredCollection> => {
+    const stored = await adapter.get(key)
+    if (!stored) {
+      return { records: new Map(), envelopes: new Map(), modifiedAt: {}, index: null }
+    }
+    return readCollection(await decryptValue(stored, key, dataKey), dataKey, adapter)
+  }
+
+  const setSavedCollection = (collection: StoredCollection): void => {
+    savedRecords = collection.records
+    savedEnvelopes = collection.envelopes
+    savedModifiedAt = collection.modifiedAt
+    savedIndex = collection.index
+  }
+
+  /**
+   * Work out which records of a collection need to be written or deleted
+   * @param {Map<string, string>} records - JSON of each record by id, in order
+   */
+  const getCollectionChanges = async (records: Map<string, string>, dataKey: ArrayBuffer): Promise<{ changes: StorageChanges, collection: StoredCollection }> => {
+    const set: [string, string][] = []
+    const envelopes = new Map<string, string>()
+    const modifiedAt: Record<string, number> = {}
+    const now = Date.now()
+
+    for (const [id, json] of records) {
+      if (savedRecords.get(id) !== json) {
+        const recordKey = getRecordKey(key, id)
+        const envelope = `${ENCRYPTED_PREFIX}${await sealEnvelope(json, dataKey, recordKey)}`
+        set.push([recordKey, envelope])
+        envelopes.set(id, envelope)
+        modifiedAt[id] = now
+      } else {
+        envelopes.set(id, savedEnvelopes.get(id) as string)
+        if (savedModifiedAt[id] !== undefined) {
+          modifiedAt[id] = savedModifiedAt[id]
+        }
+      }
+    }
+
+    // The index is written after the records it lists
+    const index = JSON.stringify({ ids: [...records.keys()], modifiedAt } satisfies CollectionIndex)
+    if (index !== savedIndex) {
+      set.push([key, `${ENCRYPTED_PREFIX}${await sealEnvelope(index, dataKey, key)}`])
+    }
+
+    const remove = [...savedRecords.keys()]
+      .filter(id => !records.has(id))
+      .map(id => getRecordKey(key, id))
+
+    return { changes: { set, remove }, collection: { records, envelopes, modifiedAt, index } }
+  }
+
+  /**
+   * Save a collection, merged with whatever another tab stored since it was last read
+   */
+  const writeCollection = async (items: CollectionItem[], dataKey: ArrayBuffer, adapter: StorageAdapter): Promise<boolean> => {
+    const changedAt = localChangeTime ?? Date.now()
+    localChangeTime = null
+
+    const ours = new Map<string, string>(items.map(item => [String(item.id), JSON.stringify(item)]))
+    let records = ours
+    if (replaceStored) {
+      replaceStored = false
+    } else {
+      const stored = await readStoredCollection(dataKey, adapter)
+      records = mergeRecords(savedRecords, ours, stored.records, stored.modifiedAt, changedAt)
+      setSavedCollection(stored)
+    }
+
+    // Show what the other tab changed; this triggers another save, which finds nothing to write
+    if ([...records.values()].join('\n') !== [...ours.values()].join('\n')) {
+      data.value = [...records.values()].map(json => JSON.parse(json)) as T
+    }
+
+    const { changes, collection } = await getCollectionChanges(records, dataKey)
+    const hasChanges = Boolean(changes.set?.length || changes.remove?.length)
+    if (hasChanges) {
+      await adapter.write(await withSnapshot(changes, dataKey, adapter))
+    }
+    setSavedCollection(collection)
+    return hasChanges
+  }
+
+  /**
+   * Merge in the copies a session on the localStorage fallback left (see getFallbackCopies)
+   * Collections are merged record by record with mergeRecordCopies; any other value is replaced
+   * by the fallback's copy, the newer of the two
+   * @param {Map<string, string>} copies - Fallback copies by storage key
+   */
+  const applyFallbackCopies = async (copies: Map<string, string>, dataKey: ArrayBuffer, adapter: StorageAdapter): Promise<void> => {
+    const stored = copies.get(key) ?? await adapter.get(key)
+    if (!stored) return
+
+    const json = await decryptValue(stored, key, dataKey)
+    if (!options.collection || !Array.isArray(data.value)) {
+      data.value = JSON.parse(json)
+      return
+    }
+
+    // The collection as the fallback session saw it: its copies over the database's
+    const fallbackAdapter: StorageAdapter = {
+      ...adapter,
+      get: async (storageKey) => copies.get(storageKey) ?? adapter.get(storageKey),
+      entries: async (prefix = '') => [...new Map([
+        ...await adapter.entries(prefix),
+        ...[...copies].filter(([storageKey]) => storageKey.startsWith(prefix))
+      ])]
+    }
+    const fallback = await readCollection(json, dataKey, fallbackAdapter)
+    const records = mergeRecordCopies(fallback.records, fallback.modifiedAt, savedRecords, savedModifiedAt)
+    data.value = [...records.values()].map(record => JSON.parse(record)) as T
+  }
+
+  /**
+   * Load data from storage (with decryption if needed)
    */
   const loadData = async () => {
     try {
       isLoading.value = true
+      isLoaded.value = false
       error.value = null
+      setSavedCollection({ records: new Map(), envelopes: new Map(), modifiedAt: {}, index: null })
+      localChangeTime = null
+      snapshotBase = null
+      loadedVaultId = null
+
+      // Another vault may be selected while this one loads; that vault is then loaded instead
+      const vaultId = selectedVaultId.value
+      const dataKey = currentPasskeyKeyMaterial.value
+      const adapter = await getVaultAdapter(vaultId)
+      const stored = await adapter.get(key)
+      if (vaultId !== selectedVaultId.value) return
 
-      const stored = localStorage.getItem(key)
       if (!stored) {
-        data.value = defaultValue
+        data.value = createDefault()
+        isLoaded.value = true
+        loadedVaultId = vaultId
         return
       }
 
       // Check if data is encrypted
-      const isEncrypted = stored.startsWith('encrypted:')
-
-      if (isEncrypted && isCryptoAvailable.value && currentPasskeyKeyMaterial.value) {
-        // Decrypt with passkey
-        const encryptedData = stored.substring(10) // Remove 'encrypted:' prefix
-        try {
-          const decryptedJson = await decryptData(encryptedData, currentPasskeyKeyMaterial.value)
-          data.value = JSON.parse(decryptedJson)
-        } catch (decryptError: unknown) {
-          const errorMessage = decryptError instanceof Error ? decryptError.message : 'Unknown error'
-          if (errorMessage.includes('authentication failed') || errorMessage.includes('Failed to decrypt')) {
-            throw new Error('Invalid passkey authentication or corrupted data')
+      const isEncrypted = stored.startsWith(ENCRYPTED_PREFIX)
+
+      if (isEncrypted && isCryptoAvailable.value && dataKey) {
+        const isLegacy = isLegacyEnvelope(stored.substring(ENCRYPTED_PREFIX.length))
+        const json = await decryptValue(stored, key, dataKey, isLegacy)
+        const value = JSON.parse(json)
+        const collection = options.collection && !Array.isArray(value) ? await readCollection(json, dataKey, adapter) : null
+        if (vaultId !== selectedVaultId.value) return
+
+        if (collection) {
+          setSavedCollection(collection)
+          data.value = [...collection.records.values()].map(record => JSON.parse(record)) as T
+        } else if (options.collection) {
+          // Every item becomes its own record, so ids have to be unique
+          const ids = new Set<string>()
+          for (const item of value) {
+            if (item.id === undefined || ids.has(String(item.id))) {
+              item.id = crypto.randomUUID()
+            }
+            ids.add(String(item.id))
           }
-          throw decryptError
+          data.value = value
+        } else {
+          data.value = value
+        }
+
+        isLoaded.value = true
+        loadedVaultId = vaultId
+        if (options.snapshots) {
+          snapshotBase = JSON.stringify(data.value)
+        }
+
+        // Changes a session on the localStorage fallback made are snapshotted like any other
+        const fallbackCopies = await getFallbackCopies(vaultId, key)
+        if (fallbackCopies.size > 0) {
+          await applyFallbackCopies(fallbackCopies, dataKey, adapter)
+        }
+
+        // Upgrade values stored before the versioned envelope, and collections stored as one array
+        if (isLegacy || (options.collection && Array.isArray(value)) || fallbackCopies.size > 0) {
+          await saveData()
+        }
+
+        // The fallback's copies are only dropped once what was merged from them is saved
+        if (fallbackCopies.size > 0 && error.value === null) {
+          await createVaultStorageAdapter(createLocalStorageAdapter(), vaultId).write({ remove: [...fallbackCopies.keys()] })
         }
       } else if (!isEncrypted) {
         // Plain text data (legacy or encryption disabled)
         data.value = JSON.parse(stored)
+        isLoaded.value = true
+        loadedVaultId = vaultId
       } else {
         // Encrypted data but no passkey authentication available
         throw new Error('Data is encrypted but no passkey authentication available')
@@ -74,54 +448,149 @@ export function useSecureStorage<T = any>(key: string, defaultValue: T = null as
       const errorMessage = err instanceof Error ? err.message : 'Unknown error'
       console.error('Failed to load data:', err)
       error.value = errorMessage
-      data.value = defaultValue
+      // Shown as empty, but never saved: `isLoaded` stays false so the stored data is left alone
+      isLoaded.value = false
+      data.value = createDefault()
     } finally {
       isLoading.value = false
     }
   }
 
   /**
-   * Save data to localStorage (with encryption if enabled)
+   * Add a snapshot of the data as loaded to a write, the first time the data differs from it
    */
-  const saveData = async () => {
+  const withSnapshot = async (changes: StorageChanges, dataKey: ArrayBuffer, adapter: StorageAdapter): Promise<StorageChanges> => {
+    if (!options.snapshots || snapshotBase === null || snapshotBase === JSON.stringify(data.value)) {
+      return changes
+    }
+
+    const snapshot = await createSnapshotChanges(adapter, key, snapshotBase, dataKey, options.snapshots)
+    snapshotBase = null
+    return {
+      set: [...(snapshot.set || []), ...(changes.set || [])],
+      remove: [...(snapshot.remove || []), ...(changes.remove || [])]
+    }
+  }
+
+  const writeData = async () => {
+    // Until a load succeeds, data only holds the default; saving it would overwrite the vault.
+    // Data still shown from a vault that was switched away from is never saved to the new one
+    if (!isLoaded.value || loadedVaultId !== selectedVaultId.value) return
+
     try {
-      isLoading.value = true
       error.value = null
 
-      const jsonData = JSON.stringify(data.value)
+      const vaultId = selectedVaultId.value
+      const adapter = await getVaultAdapter(vaultId)
+      const dataKey = currentPasskeyKeyMaterial.value
 
-      if (isCryptoAvailable.value && currentPasskeyKeyMaterial.value) {
-        // Encrypt with passkey
-        const encryptedData = await encryptData(jsonData, currentPasskeyKeyMaterial.value)
-        localStorage.setItem(key, `encrypted:${encryptedData}`)
-      } else {
+      if (isCryptoAvailable.value && dataKey) {
+        if (options.collection && Array.isArray(data.value)) {
+          if (await writeCollection(data.value, dataKey, adapter)) {
+            postTabMessage({ type: 'changed', vaultId, key })
+          }
+        } else {
+          // Encrypt with the vault key, bound to this storage key; the last tab to save wins
+          const envelope = await sealEnvelope(JSON.stringify(data.value), dataKey, key)
+          await adapter.write(await withSnapshot({ set: [[key, `${ENCRYPTED_PREFIX}${envelope}`]] }, dataKey, adapter))
+          postTabMessage({ type: 'changed', vaultId, key })
+        }
+      } else if (!(await isDataEncrypted())) {
         // Store as plain text
-        localStorage.setItem(key, jsonData)
+        await adapter.write({ set: [[key, JSON.stringify(data.value)]] })
       }
+      // Otherwise the vault is locked: never replace encrypted data with plain text
     } catch (err: unknown) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error'
       console.error('Failed to save data:', err)
       error.value = errorMessage
-    } finally {
-      isLoading.value = false
     }
   }
 
+  /**
+   * Save data to storage (with encryption if enabled)
+   */
+  const saveData = (): Promise<void> => enqueueWrite(writeData)
+
+  /**
+   * Replace the data with a snapshot and save it
+   * Also works after a failed load: every existing record is rewritten or removed. When the
+   * current data was loaded, it is snapshotted first, so restoring can itself be undone
+   * @param {string} snapshotId - ID from `listSnapshots`
+   */
+  const restoreSnapshot = async (snapshotId: string): Promise<void> => {
+    const dataKey = currentPasskeyKeyMaterial.value
+    if (!dataKey) {
+      throw new Error('Unlock the vault to restore a snapshot')
+    }
+
+    const vaultId = selectedVaultId.value
+    const adapter = await getVaultAdapter(vaultId)
+    const snapshotKey = `${getSnapshotPrefix(key)}${snapshotId}`
+    const stored = await adapter.get(snapshotKey)
+    if (!stored) {
+      throw new Error('Snapshot not found')
+    }
+    const snapshot = await readSnapshot<T>(snapshotKey, stored, dataKey)
+
+    await enqueueWrite(async () => {
+      if (vaultId !== selectedVaultId.value) {
+        throw new Error('Another vault was opened before the snapshot was restored')
+      }
+      snapshotBase = isLoaded.value && options.snapshots ? JSON.stringify(data.value) : null
+
+      // Treat every stored record as stale, including unreadable ones a failed load left behind
+      if (options.collection) {
+        const recordIds = (await adapter.entries(`${key}/`)).map(([recordKey]) => recordKey.substring(key.length + 1))
+        setSavedCollection({ records: new Map(recordIds.map(id => [id, ''])), envelopes: new Map(), modifiedAt: {}, index: null })
+        replaceStored = true
+      }
+
+      data.value = snapshot.data
+      isLoaded.value = true
+      loadedVaultId = vaultId
+      error.value = null
+    })
+    await saveData()
+  }
+
   /**
    * Check if stored data is encrypted
    */
-  const isDataEncrypted = (): boolean => {
-    const stored = localStorage.getItem(key)
-    return Boolean(stored && stored.startsWith('encrypted:'))
+  const isDataEncrypted = async (): Promise<boolean> => {
+    const stored = await (await getVaultAdapter()).get(key)
+    return Boolean(stored && stored.startsWith(ENCRYPTED_PREFIX))
   }
 
   // Watch for data changes and auto-save
-  watch(data, saveData, { deep: true })
+  watch(data, () => {
+    localChangeTime ??= Date.now()
+    saveData()
+  }, { deep: true })
+
+  // Pick up what another tab saved: collections are merged record by record, other values reloaded
+  onTabMessage((message) => {
+    if (message.type !== 'changed' || message.vaultId !== selectedVaultId.value || message.key !== key || !isUnlocked.value) return
+
+    if (options.collection && isLoaded.value) {
+      saveData()
+    } else {
+      loadData()
+    }
+  })
 
-  // Load data when passkey becomes available
+  // Load data when passkey becomes available or another unlocked vault is selected, and drop the
+  // decrypted copy when the vault locks or a locked one is selected
   watch([currentPasskeyKeyMaterial, isUnlocked], () => {
     if (isUnlocked.value && currentPasskeyKeyMaterial.value) {
       loadData()
+    } else if (!isUnlocked.value) {
+      isLoaded.value = false
+      data.value = createDefault()
+      setSavedCollection({ records: new Map(), envelopes: new Map(), modifiedAt: {}, index: null })
+      localChangeTime = null
+      snapshotBase = null
+      loadedVaultId = null
     }
   })
 
@@ -129,8 +598,10 @@ export function useSecureStorage<T = any>(key: string, defaultValue: T = null as
     data: data as Ref<T>,
     isLoading,
     error,
+    isLoaded,
     loadData,
     saveData,
+    restoreSnapshot,
     isDataEncrypted,
     // Expose global state
     isUnlocked,
@@ -140,60 +611,423 @@ export function useSecureStorage<T = any>(key: string, defaultValue: T = null as
 }
 
 /**
- * Set the passkey key material and unlock the storage
- * @param {ArrayBuffer} keyMaterial - The passkey authentication key material (PRF result or signature)
+ * Collect every encrypted item in a vault as [storage key, envelope] pairs
+ * @param {string} vaultId - ID of the vault, the selected one by default
  */
-export async function unlockStorage(keyMaterial: ArrayBuffer): Promise<void> {
-  // Test the key material by trying to decrypt existing data
-  if (hasEncryptedData()) {
-    let keyMaterialValid = false
+async function getEncryptedItems(vaultId: string = selectedVaultId.value): Promise<[string, string][]> {
+  const adapter = await getVaultAdapter(vaultId)
+  return (await adapter.entries())
+    .filter(([, value]) => value.startsWith(ENCRYPTED_PREFIX))
+    .map(([storageKey, value]) => [storageKey, value.substring(ENCRYPTED_PREFIX.length)])
+}
 
-    // Find the first encrypted item and try to decrypt it to validate key material
-    for (let i = 0; i < localStorage.length; i++) {
-      const storageKey = localStorage.key(i)
-      const value = storageKey ? localStorage.getItem(storageKey) : null
-      if (storageKey && value && value.startsWith('encrypted:')) {
-        try {
-          const encryptedData = value.substring(10) // Remove 'encrypted:' prefix
-          await decryptData(encryptedData, keyMaterial)
-          // If we get here, key material is correct
-          keyMaterialValid = true
-          break
-        } catch (err) {
-          // Continue checking other items in case this one is corrupted
-          continue
-        }
-      }
+/**
+ * Check that key material decrypts the existing data
+ * Succeeds if there is no encrypted data yet. Values stored before the versioned envelope count
+ * too: they are only upgraded when loaded, after the vault is unlocked
+ */
+async function isKeyMaterialValid(keyMaterial: ArrayBuffer): Promise<boolean> {
+  const items = await getEncryptedItems()
+  if (items.length === 0) {
+    return true
+  }
+
+  // Find the first encrypted item that decrypts to validate key material
+  for (const [storageKey, envelope] of items) {
+    try {
+      await (isLegacyEnvelope(envelope) ? openLegacyEnvelope(envelope, keyMaterial) : openEnvelope(envelope, keyMaterial, storageKey))
+      return true
+    } catch (err) {
+      // Continue checking other items in case this one is corrupted
+      continue
     }
+  }
+  return false
+}
+
+/**
+ * Re-encrypt every encrypted item from one key to another, in memory
+ * @param {boolean} upgradeLegacy - Read values stored before the versioned envelope, and upgrade them
+ * @returns {Promise<[string, string][]>} Storage values to write
+ */
+async function reencryptItems(oldKeyMaterial: ArrayBuffer, newKeyMaterial: ArrayBuffer, upgradeLegacy = false): Promise<[string, string][]> {
+  const reencrypted: [string, string][] = []
+  for (const [storageKey, envelope] of await getEncryptedItems()) {
+    const plaintext = upgradeLegacy && isLegacyEnvelope(envelope)
+      ? await openLegacyEnvelope(envelope, oldKeyMaterial)
+      : await openEnvelope(envelope, oldKeyMaterial, storageKey)
+    reencrypted.push([storageKey, `${ENCRYPTED_PREFIX}${await sealEnvelope(plaintext, newKeyMaterial, storageKey)}`])
+  }
+  return reencrypted
+}
 
-    if (!keyMaterialValid) {
+/**
+ * Write re-encrypted items together with the key slots that unlock them
+ * The new slots are stored next to the previous ones before the items are rewritten, and the
+ * previous ones only removed afterwards, so whichever key the items end up under (should the
+ * tab close in between) can still be unlocked; see unlockKeySlots. If a write fails (e.g. storage
+ * quota), the previous values are restored
+ * @param {KeySlot[]} previousSlots - Slots that unlock the items as currently stored
+ */
+async function commitReencryption(items: [string, string][], slots: KeySlot[], previousSlots: KeySlot[] = keySlots.value): Promise<void> {
+  const adapter = await getVaultAdapter()
+  const previousItems = await Promise.all(items.map(async ([storageKey]) => [storageKey, await adapter.get(storageKey)] as const))
+
+  persistKeySlots(slots, previousSlots)
+  try {
+    await adapter.write({ set: items })
+    persistKeySlots(slots)
+  } catch (error) {
+    await adapter.write({
+      set: previousItems.filter((item): item is [string, string] => item[1] !== null)
+    })
+    persistKeySlots(previousSlots)
+    throw error
+  }
+}
+
+async function createKeySlot(slot: NewKeySlot, dataKey: ArrayBuffer, keyMaterial: ArrayBuffer): Promise<KeySlot> {
+  const id = crypto.randomUUID()
+  return {
+    ...slot,
+    id,
+    createdAt: Date.now(),
+    wrappedKey: await wrapDataKey(dataKey, keyMaterial, selectedVaultId.value, id)
+  }
+}
+
+/**
+ * Unwrap a slot's copy of the selected vault's data key
+ * Slots wrapped before the versioned envelope are still read, so that upgradeKeySlot can wrap
+ * them again once their key material is known
+ */
+async function unwrapKeySlot(slot: KeySlot, keyMaterial: ArrayBuffer): Promise<ArrayBuffer> {
+  return isLegacyEnvelope(slot.wrappedKey)
+    ? unwrapLegacyDataKey(slot.wrappedKey, keyMaterial)
+    : unwrapDataKey(slot.wrappedKey, keyMaterial, selectedVaultId.value, slot.id)
+}
+
+/**
+ * Wrap a slot's data key again in the versioned envelope, if it predates it
+ */
+async function upgradeKeySlot(slot: KeySlot, dataKey: ArrayBuffer, keyMaterial: ArrayBuffer): Promise<void> {
+  if (!isLegacyEnvelope(slot.wrappedKey)) return
+
+  const wrappedKey = await wrapDataKey(dataKey, keyMaterial, selectedVaultId.value, slot.id)
+  persistKeySlots(keySlots.value.map(existing => existing.id === slot.id ? { ...existing, wrappedKey } : existing))
+}
+
+function persistKeySlots(slots: KeySlot[], previousSlots: KeySlot[] = []): void {
+  const vaultId = selectedVaultId.value
+  saveKeyring(slots, vaultId, previousSlots)
+  keySlots.value = slots
+  postTabMessage({ type: 'keyring-changed', vaultId })
+}
+
+// Unlock the selected vault in this tab with a data key; other tabs unlock on their own
+function setVaultKey(dataKey: ArrayBuffer): void {
+  vaultKeys.set(selectedVaultId.value, dataKey)
+}
+
+// Only the default vault can have been set up before the keyring existed
+function getLegacyPasskeyCredential(): { id: string; userHandle: string } | null {
+  return selectedVaultId.value === DEFAULT_VAULT_ID ? getStoredPasskeyCredential() : null
+}
+
+/**
+ * Move a vault that was encrypted directly with a single passkey onto a random data key
+ */
+async function migrateLegacyVault(keyMaterial: ArrayBuffer, credentialId?: string): Promise<ArrayBuffer> {
+  const legacyCredential = getLegacyPasskeyCredential()
+  const dataKey = generateDataKey()
+  const slot = await createKeySlot({
+    type: 'passkey',
+    label: 'Passkey',
+    credentialId: credentialId || legacyCredential?.id
+  }, dataKey, keyMaterial)
+  // The data is encrypted with the passkey itself, i.e. with a data key it wraps for itself
+  const legacySlot = await createKeySlot({ type: 'passkey', label: 'Passkey', credentialId: slot.credentialId }, keyMaterial, keyMaterial)
+
+  await commitReencryption(await reencryptItems(keyMaterial, dataKey, true), [slot], [legacySlot])
+  clearStoredPasskeyCredential()
+
+  return dataKey
+}
+
+/**
+ * Unwrap the data key that decrypts the selected vault's data from one of its key slots
+ * Slots of a data key being rotated out are tried last. One of them only works if a rotation
+ * was cut short before the data was rewritten; the keyring then goes back to those slots,
+ * otherwise they are dropped
+ */
+async function unlockKeySlots(keyMaterial: ArrayBuffer, credentialId?: string): Promise<ArrayBuffer> {
+  const keyring = loadKeyring(selectedVaultId.value)
+  const slots = keyring?.slots ?? []
+  const previousSlots = keyring?.previousSlots ?? []
+  // Try the slot of the credential that was used first, then any other slot
+  const byCredential = (candidates: KeySlot[]): KeySlot[] => [...candidates].sort((a, b) =>
+    Number(b.credentialId === credentialId) - Number(a.credentialId === credentialId)
+  )
+
+  for (const slot of [...byCredential(slots), ...byCredential(previousSlots)]) {
+    let dataKey: ArrayBuffer
+    try {
+      dataKey = await unwrapKeySlot(slot, keyMaterial)
+    } catch {
+      continue
+    }
+    if (!(await isKeyMaterialValid(dataKey))) continue
+
+    if (previousSlots.length > 0) {
+      persistKeySlots(previousSlots.includes(slot) ? previousSlots : slots)
+    }
+    await upgradeKeySlot(slot, dataKey, keyMaterial)
+    return dataKey
+  }
+
+  throw new Error('Invalid passkey or passphrase, or corrupted data')
+}
+
+/**
+ * Check whether an unlock method has been set up for the selected vault
+ */
+export function isVaultConfigured(): boolean {
+  return keySlots.value.length > 0 || getLegacyPasskeyCredential() !== null
+}
+
+/**
+ * Get the credential IDs of every passkey enrolled for the selected vault
+ */
+export function getPasskeyCredentialIds(): string[] {
+  const ids = keySlots.value
+    .filter(slot => slot.type === 'passkey' && slot.credentialId)
+    .map(slot => slot.credentialId as string)
+
+  const legacyCredential = getLegacyPasskeyCredential()
+  return ids.length > 0 || !legacyCredential ? ids : [legacyCredential.id]
+}
+
+/**
+ * Set up the selected vault with its first unlock method, and unlock it
+ * @param {NewKeySlot} slot - The unlock method
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method
+ */
+export async function createVault(slot: NewKeySlot, keyMaterial: ArrayBuffer): Promise<void> {
+  const dataKey = generateDataKey()
+  persistKeySlots([await createKeySlot(slot, dataKey, keyMaterial)])
+  setVaultKey(dataKey)
+}
+
+/**
+ * Unwrap the selected vault's data key with an unlock method's key material and unlock it
+ * Only the selected vault's key slots and data are tried
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method (passkey PRF result or passphrase-derived)
+ * @param {string} credentialId - Passkey the user authenticated with, tried first
+ */
+export async function unlockStorage(keyMaterial: ArrayBuffer, credentialId?: string): Promise<void> {
+  let dataKey: ArrayBuffer
+
+  if (keySlots.value.length > 0) {
+    // Waits for a key rotation in another tab, so the keyring and the data read belong together
+    dataKey = await enqueueWrite(() => unlockKeySlots(keyMaterial, credentialId))
+  } else {
+    // Vault from before multiple unlock methods: data is encrypted with the passkey itself
+    if (!(await isKeyMaterialValid(keyMaterial))) {
       throw new Error('Invalid passkey authentication or corrupted data')
     }
+    dataKey = await migrateLegacyVault(keyMaterial, credentialId)
   }
 
   // Only set key material and unlock state after successful validation
-  currentPasskeyKeyMaterial.value = keyMaterial
-  isUnlocked.value = true
+  setVaultKey(dataKey)
+}
+
+/**
+ * Enroll an additional unlock method (e.g. a backup passkey) for the unlocked vault
+ * @param {NewKeySlot} slot - The unlock method
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method
+ */
+export async function enrollKeySlot(slot: NewKeySlot, keyMaterial: ArrayBuffer): Promise<void> {
+  if (!currentPasskeyKeyMaterial.value) {
+    throw new Error('Unlock the vault before adding an unlock method')
+  }
+
+  const newSlot = await createKeySlot(slot, currentPasskeyKeyMaterial.value, keyMaterial)
+  persistKeySlots([...keySlots.value, newSlot])
 }
 
 /**
- * Lock the storage and clear the passkey key material from memory
+ * Revoke an unlock method
+ * @param {string} slotId - ID of the key slot to remove
  */
-export function lockStorage(): void {
-  currentPasskeyKeyMaterial.value = null
-  isUnlocked.value = false
+export function revokeKeySlot(slotId: string): void {
+  const remaining = keySlots.value.filter(slot => slot.id !== slotId)
+  if (remaining.length === 0) {
+    throw new Error('The last unlock method cannot be removed')
+  }
+  persistKeySlots(remaining)
 }
 
 /**
- * Check if there's any encrypted data in localStorage
+ * Re-encrypt the vault under a fresh data key
+ * Every unlock method that should keep working must be re-authenticated, since its copy of
+ * the data key has to be wrapped again; methods that aren't listed are removed. Other tabs lock
+ * the vault and ask to unlock it again
+ * @param {{ slot: KeySlot, keyMaterial: ArrayBuffer }[]} keptSlots - Unlock methods to keep, with their key material
  */
-export function hasEncryptedData(): boolean {
-  for (let i = 0; i < localStorage.length; i++) {
-    const storageKey = localStorage.key(i)
-    const value = storageKey ? localStorage.getItem(storageKey) : null
-    if (storageKey && value && value.startsWith('encrypted:')) {
+export async function rotateVaultKey(keptSlots: { slot: KeySlot, keyMaterial: ArrayBuffer }[]): Promise<void> {
+  const vaultId = selectedVaultId.value
+  const currentDataKey = currentPasskeyKeyMaterial.value
+  if (!currentDataKey) {
+    throw new Error('Unlock the vault before rotating its key')
+  }
+  if (keptSlots.length === 0) {
+    throw new Error('Keep at least one unlock method')
+  }
+
+  // Make sure each key material really belongs to its slot before the old key is discarded
+  for (const { slot, keyMaterial } of keptSlots) {
+    try {
+      await unwrapKeySlot(slot, keyMaterial)
+    } catch {
+      throw new Error(`Could not verify "${slot.label}"`)
+    }
+  }
+
+  // Queued behind pending saves; saves made meanwhile run afterwards under the new key
+  await enqueueWrite(async () => {
+    if (vaultId !== selectedVaultId.value) {
+      throw new Error('Another vault was opened before the key was rotated')
+    }
+    const dataKey = generateDataKey()
+    const items = await reencryptItems(currentDataKey, dataKey)
+    const slots = await Promise.all(keptSlots.map(async ({ slot, keyMaterial }) => ({
+      ...slot,
+      wrappedKey: await wrapDataKey(dataKey, keyMaterial, vaultId, slot.id)
+    })))
+
+    await commitReencryption(items, slots)
+    setVaultKey(dataKey)
+    // Still holding the vault lock, so other tabs drop the old key before they write again
+    postTabMessage({ type: 'locked', vaultId })
+  })
+}
+
+/**
+ * Check that key material belongs to one of the enrolled unlock methods
+ * Used to confirm the user again before revealing secrets of the unlocked vault
+ * @param {ArrayBuffer} keyMaterial - Key material from a fresh passkey or passphrase prompt
+ */
+export async function verifyUnlockMethod(keyMaterial: ArrayBuffer): Promise<boolean> {
+  for (const slot of keySlots.value) {
+    try {
+      await upgradeKeySlot(slot, await unwrapKeySlot(slot, keyMaterial), keyMaterial)
       return true
+    } catch {
+      continue
     }
   }
   return false
 }
+
+/**
+ * Get the passphrase unlock method, if one is enrolled
+ */
+export function getPassphraseSlot(): KeySlot | undefined {
+  return keySlots.value.find(slot => slot.type === 'passphrase')
+}
+
+/**
+ * Get the enrolled unlock methods
+ */
+export function useKeySlots(): Ref<KeySlot[]> {
+  return keySlots
+}
+
+/**
+ * Lock every vault and clear their keys from memory
+ * Every useSecureStorage instance also resets its decrypted data
+ * @param {'all-tabs' | 'this-tab'} scope - Whether other tabs lock as well
+ */
+export function lockStorage(scope: 'all-tabs' | 'this-tab' = 'all-tabs'): void {
+  vaultKeys.clear()
+  if (scope === 'all-tabs') {
+    postTabMessage({ type: 'locked' })
+  }
+}
+
+/**
+ * Whether any vault is unlocked in this tab, not only the selected one
+ */
+export const hasUnlockedVault: Readonly<Ref<boolean>> = computed(() => vaultKeys.size > 0)
+
+/**
+ * Check whether a vault is unlocked in this tab
+ * @param {string} vaultId - ID of the vault
+ */
+export function isVaultUnlocked(vaultId: string): boolean {
+  return vaultKeys.has(vaultId)
+}
+
+/**
+ * Get the ID of the vault shown in this tab
+ */
+export function useSelectedVaultId(): Readonly<Ref<string>> {
+  return selectedVaultId
+}
+
+/**
+ * Show another vault in this tab
+ * Every useSecureStorage instance reloads from it, or resets if it is locked. Vaults keep
+ * their own lock state, so switching back to an unlocked vault doesn't ask to unlock again
+ * @param {string} vaultId - ID of the vault
+ */
+export async function selectVault(vaultId: string): Promise<void> {
+  // Queued, so a save that started in the previous vault finishes there
+  await enqueueWrite(async () => {
+    selectedVaultId.value = vaultId
+    keySlots.value = loadKeyring(vaultId)?.slots || []
+  })
+}
+
+/**
+ * Delete a vault's data and keyring from this device
+ * @param {string} vaultId - ID of the vault, which must not be selected
+ */
+export async function deleteVaultData(vaultId: string): Promise<void> {
+  if (vaultId === selectedVaultId.value) {
+    throw new Error('Open another vault before deleting this one')
+  }
+
+  await enqueueWrite(async () => {
+    const items = await getEncryptedItems(vaultId)
+    await (await getVaultAdapter(vaultId)).write({ remove: items.map(([storageKey]) => storageKey) })
+    // Copies the localStorage fallback left would otherwise be migrated back in
+    const fallback = createVaultStorageAdapter(createLocalStorageAdapter(), vaultId)
+    const fallbackCopies = (await fallback.entries()).filter(([, value]) => value.startsWith(ENCRYPTED_PREFIX))
+    await fallback.write({ remove: fallbackCopies.map(([storageKey]) => storageKey) })
+    removeKeyring(vaultId)
+    if (vaultId === DEFAULT_VAULT_ID) {
+      clearStoredPasskeyCredential()
+    }
+    vaultKeys.delete(vaultId)
+  })
+}
+
+// Follow lock state and keyring changes made in other tabs
+onTabMessage((message) => {
+  if (message.type === 'locked' && message.vaultId !== undefined) {
+    vaultKeys.delete(message.vaultId)
+  } else if (message.type === 'locked') {
+    lockStorage('this-tab')
+  } else if (message.type === 'keyring-changed' && message.vaultId === selectedVaultId.value) {
+    keySlots.value = loadKeyring(message.vaultId)?.slots || []
+  }
+})
+
+/**
+ * Check if there's any encrypted data in the selected vault
+ */
+export async function hasEncryptedData(): Promise<boolean> {
+  return (await getEncryptedItems()).length > 0
+}
@@ -0,0 +1,195 @@
+import { ref, computed, readonly, watch, onMounted, onUnmounted, type Ref } from 'vue'
+import { useSecureStorage } from './useSecureStorage'
+import { connectSync, syncAccounts, getAccountRecords, INITIAL_SYNC_STATE, type SyncSettings, type SyncState, type SyncTarget } from '../utils/sync'
+import { mergeRecords, hasSameRecords } from '../utils/merge'
+import { withSyncLock } from '../utils/tabSync'
+import type { TOTPAccount } from '../types'
+
+const SYNC_STORAGE_KEY = 'totp-sync'
+
+// Uploads wait for a pause in editing
+const SYNC_DEBOUNCE_MS = 5000
+
+// Changes from other devices are picked up this often while the app is open
+const SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+interface SyncConfig {
+  settings: SyncSettings | null
+  state: SyncState
+}
+
+// Sync target, credentials and state live in the vault, read once and shared by every component
+let syncConfig: { data: Ref<SyncConfig>, isLoaded: Ref<boolean> } | null = null
+
+function getSyncConfig(): { data: Ref<SyncConfig>, isLoaded: Ref<boolean> } {
+  syncConfig ??= useSecureStorage<SyncConfig>(SYNC_STORAGE_KEY, { settings: null, state: INITIAL_SYNC_STATE })
+  return syncConfig
+}
+
+const isSyncing = ref<boolean>(false)
+const syncError = ref<string | null>(null)
+const isOnline = ref<boolean>(typeof navigator === 'undefined' || navigator.onLine)
+
+// Set while the accounts are mounted, see `useAccountSync`
+let runSync: (() => Promise<void>) | null = null
+
+/**
+ * Composable for the sync status and for connecting or disconnecting a sync target
+ */
+export function useSync() {
+  const { data: config } = getSyncConfig()
+
+  const syncNow = async (): Promise<void> => {
+    await runSync?.()
+  }
+
+  // Throws if the server can't be reached or the passphrase doesn't open its sync file
+  const connect = async (target: SyncTarget, passphrase: string): Promise<void> => {
+    const settings = await connectSync(target, passphrase)
+    config.value = { settings, state: { ...INITIAL_SYNC_STATE } }
+    syncError.value = null
+    await syncNow()
+  }
+
+  // Accounts stay on this device and on the server; only the connection is forgotten
+  const disconnect = (): void => {
+    config.value = { settings: null, state: { ...INITIAL_SYNC_STATE } }
+    syncError.value = null
+  }
+
+  return {
+    syncTarget: computed(() => config.value.settings?.target ?? null),
+    lastSyncedAt: computed(() => config.value.state.lastSyncedAt),
+    hasPendingChanges: computed(() => config.value.state.pendingSince !== null),
+    isSyncing: readonly(isSyncing),
+    syncError: readonly(syncError),
+    isOnline: readonly(isOnline),
+    connectSync: connect,
+    disconnectSync: disconnect,
+    syncNow
+  }
+}
+
+/**
+ * Composable that keeps the accounts in sync with the connected server
+ * Syncs once the vault is unlocked, shortly after local changes, when the device comes back
+ * online and periodically. Changes made while offline stay queued as the difference to the
+ * last synced state, which survives reloads because it is stored in the vault
+ * @param {Ref<TOTPAccount[]>} accounts - Accounts in the vault
+ * @param {Ref<boolean>} isAccountsLoaded - Whether the accounts were read from storage
+ * @param {Function} onRemoved - Called with accounts that were deleted on another device, not with
+ * duplicates of accounts on the server that the first sync merged
+ */
+export function useAccountSync(
+  accounts: Ref<TOTPAccount[]>,
+  isAccountsLoaded: Ref<boolean>,
+  onRemoved: (removed: TOTPAccount[]) => void
+): void {
+  const { data: config, isLoaded: isConfigLoaded } = getSyncConfig()
+  const isReady = computed(() => isAccountsLoaded.value && isConfigLoaded.value && config.value.settings !== null)
+
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined
+  let syncInterval: ReturnType<typeof setInterval> | undefined
+
+  // Remember when the accounts first differed from the last synced state
+  const updatePending = (): void => {
+    const { state } = config.value
+    const isPending = !hasSameRecords(getAccountRecords(accounts.value), new Map(Object.entries(state.base)))
+
+    if (isPending !== (state.pendingSince !== null)) {
+      config.value = { ...config.value, state: { ...state, pendingSince: isPending ? Date.now() : null } }
+    }
+  }
+
+  const sync = async (): Promise<void> => {
+    clearTimeout(debounceTimer)
+    if (!isReady.value || isSyncing.value || !isOnline.value) return
+
+    isSyncing.value = true
+    try {
+      await withSyncLock(async () => {
+        const settings = config.value.settings as SyncSettings
+        const syncedBefore = config.value.state.base
+        const startRecords = getAccountRecords(accounts.value)
+        const result = await syncAccounts(settings, config.value.state, accounts.value)
+
+        // Locked or disconnected in the meantime
+        if (!isReady.value || config.value.settings?.keyMaterial !== settings.keyMaterial) return
+
+        // Edits made here while syncing win over what the sync brought in
+        const currentRecords = getAccountRecords(accounts.value)
+        const nextRecords = mergeRecords(startRecords, currentRecords, getAccountRecords(result.accounts), {}, Date.now())
+
+        if (!hasSameRecords(nextRecords, currentRecords)) {
+          // Only accounts the server had seen were deleted there; on the first sync, accounts
+          // the server already holds are dropped here in favour of its copy
+          const removed = accounts.value.filter(account => !nextRecords.has(account.id) && syncedBefore[account.id] !== undefined)
+          accounts.value = [...nextRecords.values()].map(json => JSON.parse(json) as TOTPAccount)
+          if (removed.length > 0) {
+            onRemoved(removed)
+          }
+        }
+
+        config.value = { settings, state: result.state }
+        updatePending()
+      })
+      syncError.value = null
+    } catch (err) {
+      console.error('Sync failed:', err)
+      syncError.value = err instanceof Error ? err.message : 'Sync failed'
+    } finally {
+      isSyncing.value = false
+    }
+  }
+
+  // Local changes are uploaded once editing pauses; changes the sync applied don't count
+  watch(accounts, () => {
+    if (!isReady.value) return
+
+    updatePending()
+    if (config.value.state.pendingSince !== null) {
+      clearTimeout(debounceTimer)
+      debounceTimer = setTimeout(sync, SYNC_DEBOUNCE_MS)
+    }
+  }, { deep: true })
+
+  // Sync once both the accounts and the sync settings are available, i.e. after unlocking or
+  // connecting; a tab reloading the settings after another tab synced doesn't sync again
+  watch(() => isAccountsLoaded.value && config.value.settings?.keyMaterial, (syncKey) => {
+    if (syncKey) {
+      sync()
+    }
+  })
+
+  const handleOnline = (): void => {
+    isOnline.value = true
+    sync()
+  }
+
+  const handleOffline = (): void => {
+    isOnline.value = false
+  }
+
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      sync()
+    }
+  }
+
+  onMounted(() => {
+    runSync = sync
+    syncInterval = setInterval(sync, SYNC_INTERVAL_MS)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+  })
+
+  onUnmounted(() => {
+    runSync = null
+    clearInterval(syncInterval)
+    clearTimeout(debounceTimer)
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+  })
+}
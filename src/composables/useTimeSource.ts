@@ -0,0 +1,122 @@
+import { ref, readonly, onMounted, onUnmounted, type Ref } from 'vue'
+import { measureReferenceOffset, type ReferenceTimeResult } from '../utils/clock'
+import type { TimeSettings } from '../types'
+
+const TIME_SETTINGS_STORAGE_KEY = 'time-settings'
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = {
+  offsetSeconds: 0,
+  referenceUrl: null,
+  checkOnStartup: false
+}
+
+// Largest correction accepted, anything beyond is more likely a mistake than clock drift
+export const MAX_TIME_OFFSET_SECONDS = 24 * 60 * 60
+
+function loadTimeSettings(): TimeSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TIME_SETTINGS_STORAGE_KEY) || 'null')
+    return {
+      ...DEFAULT_TIME_SETTINGS,
+      ...(stored && typeof stored === 'object' ? stored : {})
+    }
+  } catch {
+    return { ...DEFAULT_TIME_SETTINGS }
+  }
+}
+
+// Shared by every code and countdown in the app; not secret, so kept in plain localStorage
+const timeSettings = ref<TimeSettings>(loadTimeSettings())
+
+/**
+ * Current time in milliseconds, corrected by the device's time offset
+ * Use this instead of Date.now() for anything that generates or times codes
+ */
+export function getCurrentTime(): number {
+  return Date.now() + timeSettings.value.offsetSeconds * 1000
+}
+
+// App-wide clock for codes and countdowns, updated once per second by a single timer
+const currentTime = ref<number>(getCurrentTime())
+let tickSubscribers = 0
+let tickTimeout: ReturnType<typeof setTimeout> | null = null
+
+function stopTicking(): void {
+  if (tickTimeout) {
+    clearTimeout(tickTimeout)
+    tickTimeout = null
+  }
+}
+
+function tick(): void {
+  stopTicking()
+  currentTime.value = getCurrentTime()
+
+  // Nothing is visible while hidden; the next visibilitychange catches up immediately
+  if (document.visibilityState === 'hidden') return
+
+  // Wake just after the next second boundary of the corrected clock, so every countdown changes together
+  tickTimeout = setTimeout(tick, 1000 - (currentTime.value % 1000) + 5)
+}
+
+/**
+ * Composable for the shared current time (corrected by the time offset)
+ * The timer only runs while at least one mounted component uses it
+ * @returns {Readonly<Ref<number>>} Time in milliseconds, updated on second boundaries
+ */
+export function useCurrentTime(): Readonly<Ref<number>> {
+  onMounted(() => {
+    if (tickSubscribers++ === 0) {
+      document.addEventListener('visibilitychange', tick)
+      tick()
+    }
+  })
+
+  onUnmounted(() => {
+    if (--tickSubscribers === 0) {
+      document.removeEventListener('visibilitychange', tick)
+      stopTicking()
+    }
+  })
+
+  return readonly(currentTime)
+}
+
+/**
+ * Composable to read and change the device's clock correction
+ */
+export function useTimeSource() {
+  const updateTimeSettings = (changes: Partial<TimeSettings>): void => {
+    const updated = { ...timeSettings.value, ...changes }
+
+    if (!Number.isInteger(updated.offsetSeconds) || Math.abs(updated.offsetSeconds) > MAX_TIME_OFFSET_SECONDS) {
+      throw new Error('Time offset must be a whole number of seconds within a day')
+    }
+
+    timeSettings.value = updated
+    localStorage.setItem(TIME_SETTINGS_STORAGE_KEY, JSON.stringify(updated))
+
+    // Show codes for the new offset right away
+    if (tickSubscribers > 0) {
+      tick()
+    }
+  }
+
+  // Shift the offset by a correction from calibration or the time reference
+  const applyTimeCorrection = (seconds: number): void => {
+    updateTimeSettings({ offsetSeconds: timeSettings.value.offsetSeconds + seconds })
+  }
+
+  // Without a configured reference, the server hosting the app is used
+  const checkTimeReference = (): Promise<ReferenceTimeResult> => {
+    const url = timeSettings.value.referenceUrl || new URL(import.meta.env.BASE_URL, location.origin).href
+    return measureReferenceOffset(url, getCurrentTime)
+  }
+
+  return {
+    timeSettings: readonly(timeSettings),
+    updateTimeSettings,
+    applyTimeCorrection,
+    checkTimeReference
+  }
+}
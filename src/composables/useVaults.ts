@@ -0,0 +1,93 @@
+import { ref, computed, readonly } from 'vue'
+import { selectVault, deleteVaultData, lockStorage, useSelectedVaultId } from './useSecureStorage'
+import { loadVaults, saveVaults, saveSelectedVaultId, normalizeVaultName, type VaultInfo } from '../utils/vaults'
+import { postTabMessage, onTabMessage } from '../utils/tabSync'
+
+// Shared by every component, and kept in step with the other tabs
+const vaults = ref<VaultInfo[]>(loadVaults())
+
+const selectedVaultId = useSelectedVaultId()
+
+const updateVaults = (next: VaultInfo[]): void => {
+  saveVaults(next)
+  vaults.value = next
+  postTabMessage({ type: 'vaults-changed' })
+}
+
+const switchVault = async (vaultId: string): Promise<void> => {
+  if (!vaults.value.some(vault => vault.id === vaultId)) {
+    throw new Error('Vault not found')
+  }
+  await selectVault(vaultId)
+  saveSelectedVaultId(vaultId)
+}
+
+// A vault deleted in another tab can't stay open here
+onTabMessage((message) => {
+  if (message.type !== 'vaults-changed') return
+
+  vaults.value = loadVaults()
+  if (!vaults.value.some(vault => vault.id === selectedVaultId.value)) {
+    switchVault(vaults.value[0].id).catch((error) => {
+      // Still showing the deleted vault: lock, so only the unlock or setup screen is left
+      console.error('Failed to open another vault:', error)
+      lockStorage('this-tab')
+    })
+  }
+})
+
+/**
+ * Composable for the named vaults on this device
+ * Each vault has its own unlock methods, data key and lock state; switching vaults shows
+ * another one in this tab without locking the others
+ */
+export function useVaults() {
+  const selectedVault = computed(() => {
+    return vaults.value.find(vault => vault.id === selectedVaultId.value) ?? vaults.value[0]
+  })
+
+  /**
+   * Create an empty vault and open it, so its first unlock method can be set up
+   * @param {string} name - Name shown in the vault switcher
+   */
+  const addVault = async (name: string): Promise<void> => {
+    const vault: VaultInfo = {
+      id: crypto.randomUUID(),
+      name: normalizeVaultName(name),
+      createdAt: Date.now()
+    }
+    updateVaults([...vaults.value, vault])
+    await switchVault(vault.id)
+  }
+
+  const renameVault = (vaultId: string, name: string): void => {
+    const normalized = normalizeVaultName(name)
+    updateVaults(vaults.value.map(vault => vault.id === vaultId ? { ...vault, name: normalized } : vault))
+  }
+
+  /**
+   * Delete a vault and everything in it from this device; another vault is opened first
+   * @param {string} vaultId - ID of the vault
+   */
+  const deleteVault = async (vaultId: string): Promise<void> => {
+    const remaining = vaults.value.filter(vault => vault.id !== vaultId)
+    if (remaining.length === 0) {
+      throw new Error('The last vault cannot be deleted')
+    }
+
+    if (vaultId === selectedVaultId.value) {
+      await switchVault(remaining[0].id)
+    }
+    await deleteVaultData(vaultId)
+    updateVaults(remaining)
+  }
+
+  return {
+    vaults: readonly(vaults),
+    selectedVault,
+    switchVault,
+    addVault,
+    renameVault,
+    deleteVault
+  }
+}
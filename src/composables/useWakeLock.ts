@@ -0,0 +1,49 @@
+import { ref, onMounted, onUnmounted } from 'vue'
+
+/**
+ * Composable that keeps the screen on while the calling component is mounted
+ * The browser releases the lock whenever the page is hidden, so it is requested again on return
+ */
+export function useWakeLock() {
+  const isSupported = typeof navigator !== 'undefined' && 'wakeLock' in navigator
+  const isActive = ref<boolean>(false)
+  let sentinel: WakeLockSentinel | null = null
+
+  const request = async (): Promise<void> => {
+    if (!isSupported || sentinel || document.visibilityState !== 'visible') return
+
+    try {
+      sentinel = await navigator.wakeLock.request('screen')
+      isActive.value = true
+      sentinel.addEventListener('release', () => {
+        sentinel = null
+        isActive.value = false
+      })
+    } catch (error) {
+      // Refused e.g. in battery saver mode; the display still works, the screen may just dim
+      console.warn('Screen wake lock unavailable:', error)
+    }
+  }
+
+  const handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      request()
+    }
+  }
+
+  onMounted(() => {
+    request()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+  })
+
+  onUnmounted(() => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    sentinel?.release()
+    sentinel = null
+  })
+
+  return {
+    isSupported,
+    isActive
+  }
+}
@@ -1,14 +1,80 @@
+// One-time password kind: time-based (RFC 6238) or counter-based (RFC 4226)
+export type OTPType = 'totp' | 'hotp'
+
+// Code generator: standard RFC 4226/6238 codes or a vendor-specific variant
+export type CodeProvider = 'rfc' | 'steam' | 'yandex' | 'motp'
+
 // TOTP Account interface
 export interface TOTPAccount {
   id: string
+  // Defaults to 'totp' for accounts stored before HOTP support
+  type?: OTPType
   secret: string
   label: string
   issuer?: string
   algorithm?: 'SHA1' | 'SHA256' | 'SHA512'
   digits?: number
   period?: number
+  // HOTP only: counter of the code currently shown
+  counter?: number
+  // Defaults to 'rfc'; non-standard variants are always time-based
+  provider?: CodeProvider
+  // Yandex and mOTP only: PIN mixed into the code
+  pin?: string
+  // Position in the list set by the user; accounts stored before reordering fall back to insertion order
+  sortOrder?: number
+  // Pinned favourites are listed first
+  pinned?: boolean
+  // Free-form tags, also used as folders when filtering
+  tags?: string[]
+  // Image uploaded by the user (PNG data URL), shown instead of the bundled issuer icon
+  icon?: string
   addedAt: number
 }
 
+// Account data before it has been assigned an id and timestamp
+export type NewTOTPAccount = Omit<TOTPAccount, 'id' | 'addedAt'>
+
+// Deleted account kept in the recycle bin until it expires
+export interface RecycledAccount extends TOTPAccount {
+  deletedAt: number
+}
+
+// Entry found while importing from another authenticator, shown in the import preview
+export interface ImportCandidate {
+  name: string
+  issuer?: string
+  // Null when the entry can't be represented as an account
+  account: NewTOTPAccount | null
+  unsupportedReason?: string
+}
+
 // Modal mode type
-export type ModalMode = 'scanner' | 'manual'
+export type ModalMode = 'scanner' | 'manual' | 'file'
+
+// When the vault locks itself; null disables a policy
+export interface AutoLockSettings {
+  // Minutes without user interaction
+  idleTimeoutMinutes: number | null
+  // Seconds the app may stay in the background (0 locks as soon as it is hidden)
+  hiddenTimeoutSeconds: number | null
+  // Lock when the browser freezes the page or keeps it in the back/forward cache
+  lockOnSuspend: boolean
+  // Minutes after unlocking, regardless of activity
+  maxSessionMinutes: number | null
+}
+
+// Clock correction for this device, kept outside the vault so it also applies to other vaults and syncs
+export interface TimeSettings {
+  // Seconds added to the device clock before generating codes
+  offsetSeconds: number
+  // URL whose Date response header is used as the time reference, if set
+  referenceUrl: string | null
+  // Compare the clock with the reference when the app starts
+  checkOnStartup: boolean
+}
+
+// Preferences stored encrypted alongside the vault
+export interface AppSettings {
+  autoLock: AutoLockSettings
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeAccount } from './accounts'
+
+const SECRET = 'JBSWY3DPEHPK3PXP'
+
+describe('sanitizeAccount', () => {
+  it('fills in defaults for missing settings', () => {
+    expect(sanitizeAccount({ label: ' alice ', issuer: 'Example', secret: 'jbsw y3dp ehpk 3pxp' })).toEqual({
+      type: 'totp',
+      label: 'alice',
+      issuer: 'Example',
+      secret: SECRET,
+      algorithm: 'SHA1',
+      digits: 6,
+      period: 30
+    })
+  })
+
+  it('accepts the same settings as otpauth URIs', () => {
+    expect(sanitizeAccount({ label: 'alice', secret: SECRET, algorithm: 'sha-256', digits: '8', period: 300 }))
+      .toMatchObject({ algorithm: 'SHA256', digits: 8, period: 300 })
+    expect(sanitizeAccount({ type: 'hotp', label: 'bob', secret: SECRET, counter: 42 })).toMatchObject({ counter: 42 })
+  })
+
+  it('rejects settings outside the otpauth ranges', () => {
+    const account = { label: 'alice', secret: SECRET }
+    expect(sanitizeAccount({ ...account, digits: 10 })).toBeNull()
+    expect(sanitizeAccount({ ...account, period: 0 })).toBeNull()
+    expect(sanitizeAccount({ ...account, period: 301 })).toBeNull()
+    expect(sanitizeAccount({ ...account, period: 1.5 })).toBeNull()
+    expect(sanitizeAccount({ ...account, algorithm: 'MD5' })).toBeNull()
+    expect(sanitizeAccount({ ...account, type: 'hotp', counter: -1 })).toBeNull()
+  })
+
+  it('rejects entries with missing or mistyped fields', () => {
+    expect(sanitizeAccount(null)).toBeNull()
+    expect(sanitizeAccount({ label: 'alice' })).toBeNull()
+    expect(sanitizeAccount({ label: 'alice', secret: SECRET, issuer: 42 })).toBeNull()
+    expect(sanitizeAccount({ label: 'alice', secret: SECRET, digits: { value: 6 } })).toBeNull()
+    expect(sanitizeAccount({ label: 'alice', secret: SECRET, provider: 'yandex' })).toBeNull()
+  })
+})
@@ -0,0 +1,306 @@
+/**
+ * Account utilities shared by the add, import and restore flows
+ */
+
+import { CODE_GENERATORS } from './generators'
+import { isCustomIcon } from './icons'
+import { normalizeSecret, parseAlgorithm, parseIntegerSetting, MIN_DIGITS, MAX_DIGITS, MIN_PERIOD, MAX_PERIOD } from './otpauth'
+import type { CodeProvider, TOTPAccount, NewTOTPAccount } from '../types'
+
+// Vault storage key of the account list, also used for its snapshots
+export const ACCOUNTS_STORAGE_KEY = 'totp-accounts'
+
+// Snapshots of the account list kept for recovery
+export const ACCOUNT_SNAPSHOT_COUNT = 10
+
+const MAX_TAG_LENGTH = 32
+
+/**
+ * Generate a unique account identifier
+ * @returns {string} Random identifier that stays unique across bulk imports
+ */
+export function createAccountId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Check that a value parsed from an untrusted file is an object whose fields can be read
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Find an existing account that the candidate would duplicate
+ * Considered a duplicate if the secret matches and either label or issuer matches
+ * @param {TOTPAccount[]} accounts - Accounts already stored
+ * @param {NewTOTPAccount} candidate - Account about to be added
+ * @returns {TOTPAccount | undefined} The matching account, if any
+ */
+export function findDuplicateAccount(accounts: TOTPAccount[], candidate: NewTOTPAccount): TOTPAccount | undefined {
+  return accounts.find((existing: TOTPAccount) => {
+    // Padding is optional in base32, so it doesn't make a secret different
+    const sameSecret = existing.secret.replace(/=+$/, '') === candidate.secret.replace(/=+$/, '')
+    const sameLabel = existing.label === candidate.label
+    const sameIssuer = (existing.issuer || '') === (candidate.issuer || '')
+
+    return sameSecret && (sameLabel || sameIssuer)
+  })
+}
+
+/**
+ * Clean up user-entered tags: trimmed, single-spaced and without case-insensitive duplicates
+ * @param {unknown[]} tags - Raw tag values
+ * @returns {string[]} Tags in their original order
+ */
+export function normalizeTags(tags: unknown[]): string[] {
+  const seen = new Set<string>()
+  const normalized: string[] = []
+
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue
+
+    const value = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH)
+    if (value && !seen.has(value.toLowerCase())) {
+      seen.add(value.toLowerCase())
+      normalized.push(value)
+    }
+  }
+
+  return normalized
+}
+
+// Numeric settings may be stored as numbers or, by some apps, as strings
+function isSettingValue(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number'
+}
+
+/**
+ * Keep the display fields of an untrusted entry (pinned flag, tags and custom icon)
+ * The list position isn't kept, since it only makes sense within the list it came from
+ */
+function sanitizeDisplayFields(candidate: Record<string, unknown>): Pick<NewTOTPAccount, 'pinned' | 'tags' | 'icon'> {
+  const tags = Array.isArray(candidate.tags) ? normalizeTags(candidate.tags) : []
+
+  return {
+    ...(candidate.pinned === true ? { pinned: true } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(isCustomIcon(candidate.icon) ? { icon: candidate.icon } : {})
+  }
+}
+
+/**
+ * Normalise an entry that uses a non-standard code generator
+ */
+function sanitizeProviderAccount(
+  candidate: Record<string, unknown>,
+  provider: CodeProvider,
+  fields: { label: string, secret: string }
+): NewTOTPAccount | null {
+  const generator = CODE_GENERATORS[provider]
+
+  if (generator.requiresPin && (typeof candidate.pin !== 'string' || !candidate.pin)) {
+    return null
+  }
+
+  return {
+    type: 'totp',
+    provider,
+    label: fields.label,
+    issuer: candidate.issuer as string | undefined,
+    secret: fields.secret,
+    digits: generator.digits,
+    period: generator.period,
+    ...(generator.requiresPin ? { pin: candidate.pin as string } : {}),
+    ...sanitizeDisplayFields(candidate)
+  }
+}
+
+/**
+ * Validate an untrusted entry (e.g. from a backup file) and normalise it into an account
+ * @param {unknown} candidate - Parsed JSON value
+ * @returns {NewTOTPAccount | null} Normalised account or null if the entry is invalid
+ */
+export function sanitizeAccount(candidate: unknown): NewTOTPAccount | null {
+  if (!isRecord(candidate)) {
+    return null
+  }
+
+  if (typeof candidate.secret !== 'string' || typeof candidate.label !== 'string') {
+    return null
+  }
+
+  let secret: string
+  try {
+    secret = normalizeSecret(candidate.secret)
+  } catch {
+    return null
+  }
+
+  const label = candidate.label.trim()
+  if (!label) {
+    return null
+  }
+
+  if (candidate.issuer !== undefined && typeof candidate.issuer !== 'string') {
+    return null
+  }
+
+  let algorithm: NonNullable<TOTPAccount['algorithm']>
+  try {
+    algorithm = parseAlgorithm(String(candidate.algorithm ?? 'SHA1'))
+  } catch {
+    return null
+  }
+
+  const type = candidate.type ?? 'totp'
+  if (type !== 'totp' && type !== 'hotp') {
+    return null
+  }
+
+  const provider = candidate.provider ?? 'rfc'
+  if (!Object.keys(CODE_GENERATORS).includes(provider as string)) {
+    return null
+  }
+
+  // Non-standard variants are time-based with fixed settings
+  if (provider !== 'rfc') {
+    return sanitizeProviderAccount(candidate, provider as CodeProvider, { label, secret })
+  }
+
+  const digits = candidate.digits ?? 6
+  const counter = candidate.counter ?? 0
+  const period = candidate.period ?? 30
+  if (!isSettingValue(digits) || !isSettingValue(counter) || !isSettingValue(period)) {
+    return null
+  }
+
+  // The same ranges as otpauth URIs, so every way of adding an account accepts the same settings
+  try {
+    const account: NewTOTPAccount = {
+      type,
+      label,
+      issuer: candidate.issuer as string | undefined,
+      secret,
+      algorithm,
+      digits: parseIntegerSetting('digits', digits, MIN_DIGITS, MAX_DIGITS),
+      ...sanitizeDisplayFields(candidate)
+    }
+
+    if (type === 'hotp') {
+      account.counter = parseIntegerSetting('counter', counter, 0)
+    } else {
+      account.period = parseIntegerSetting('period', period, MIN_PERIOD, MAX_PERIOD)
+    }
+
+    return account
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Validate an untrusted account that keeps its identity, e.g. one from the sync file
+ * Unlike sanitizeAccount, its id, list position and time added are kept
+ * @param {unknown} candidate - Parsed JSON value
+ * @returns {TOTPAccount | null} Normalised account or null if the entry is invalid
+ */
+export function sanitizeStoredAccount(candidate: unknown): TOTPAccount | null {
+  const account = sanitizeAccount(candidate)
+  if (!account || !isRecord(candidate) || typeof candidate.id !== 'string' || !candidate.id) {
+    return null
+  }
+
+  const { sortOrder, addedAt } = candidate
+  return {
+    ...account,
+    id: candidate.id,
+    ...(Number.isFinite(sortOrder) ? { sortOrder: sortOrder as number } : {}),
+    addedAt: Number.isFinite(addedAt) ? addedAt as number : 0
+  }
+}
+
+/**
+ * Work out which incoming accounts can be appended without creating duplicates
+ * @param {TOTPAccount[]} existing - Accounts already stored
+ * @param {NewTOTPAccount[]} incoming - Accounts to merge in
+ * @returns Accounts ready to append (with fresh ids) and the duplicates that were skipped
+ */
+export function mergeAccounts(
+  existing: TOTPAccount[],
+  incoming: NewTOTPAccount[]
+): { added: TOTPAccount[], skipped: NewTOTPAccount[] } {
+  const added: TOTPAccount[] = []
+  const skipped: NewTOTPAccount[] = []
+
+  for (const account of incoming) {
+    // Also check against accounts merged earlier in this batch
+    if (findDuplicateAccount([...existing, ...added], account)) {
+      skipped.push(account)
+      continue
+    }
+
+    added.push({
+      ...account,
+      id: createAccountId(),
+      sortOrder: getNextSortOrder([...existing, ...added]),
+      addedAt: Date.now()
+    })
+  }
+
+  return { added, skipped }
+}
+
+// Accounts stored before reordering have no sortOrder and keep their insertion order
+function getSortOrder(account: TOTPAccount, index: number): number {
+  return account.sortOrder ?? index
+}
+
+/**
+ * Sort accounts for display: pinned first, then by the user's order
+ * @param {TOTPAccount[]} accounts - Accounts in storage order
+ * @returns {TOTPAccount[]} New sorted array
+ */
+export function sortAccounts(accounts: TOTPAccount[]): TOTPAccount[] {
+  return accounts
+    .map((account, index) => ({ account, order: getSortOrder(account, index) }))
+    .sort((a, b) => Number(Boolean(b.account.pinned)) - Number(Boolean(a.account.pinned)) || a.order - b.order)
+    .map(({ account }) => account)
+}
+
+/**
+ * Position for an account appended to the end of the list
+ */
+export function getNextSortOrder(accounts: TOTPAccount[]): number {
+  return accounts.reduce((max, account, index) => Math.max(max, getSortOrder(account, index) + 1), 0)
+}
+
+/**
+ * Move an account to a new position in the displayed order
+ * Renumbers sortOrder in place, so only accounts whose position changed are modified
+ * @param {TOTPAccount[]} accounts - All accounts
+ * @param {string} accountId - Account to move
+ * @param {number} targetIndex - New index within sortAccounts(accounts)
+ */
+export function moveAccount(accounts: TOTPAccount[], accountId: string, targetIndex: number): void {
+  const ordered = sortAccounts(accounts)
+  const fromIndex = ordered.findIndex(account => account.id === accountId)
+  if (fromIndex === -1) return
+
+  const [moved] = ordered.splice(fromIndex, 1)
+  ordered.splice(Math.max(0, Math.min(targetIndex, ordered.length)), 0, moved)
+
+  ordered.forEach((account, index) => {
+    if (account.sortOrder !== index) {
+      account.sortOrder = index
+    }
+  })
+}
+
+/**
+ * Every tag in use, sorted alphabetically
+ */
+export function getAllTags(accounts: TOTPAccount[]): string[] {
+  return normalizeTags(accounts.flatMap(account => account.tags || []))
+    .sort((a, b) => a.localeCompare(b))
+}
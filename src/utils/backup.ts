@@ -0,0 +1,196 @@
+/**
+ * Passphrase-protected backup files
+ * Accounts are encrypted with AES-GCM under a PBKDF2-derived key so a backup can be
+ * restored on any device, independently of the passkey that protects local storage
+ */
+
+import { deriveKeyFromPassphrase, isAcceptedKdfIterations, PASSPHRASE_KDF_ITERATIONS, MIN_PASSPHRASE_LENGTH } from './crypto'
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding'
+import { sanitizeAccount, isRecord } from './accounts'
+import type { TOTPAccount, NewTOTPAccount } from '../types'
+
+export const BACKUP_FORMAT = 'my-totp-backup'
+export const BACKUP_VERSION = 1
+
+// Minimum passphrase length accepted when exporting
+export const MIN_BACKUP_PASSPHRASE_LENGTH = MIN_PASSPHRASE_LENGTH
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  kdf: {
+    name: 'PBKDF2'
+    hash: 'SHA-256'
+    iterations: number
+    salt: string
+  }
+  cipher: {
+    name: 'AES-GCM'
+    iv: string
+  }
+  data: string
+}
+
+interface BackupPayload {
+  accounts: TOTPAccount[]
+}
+
+export interface RestoredBackup {
+  accounts: NewTOTPAccount[]
+  invalidCount: number
+  createdAt: string
+}
+
+// Bind the format identifier to the ciphertext so it can't be replayed under another format
+function getAdditionalData(version: number): Uint8Array {
+  return new TextEncoder().encode(`${BACKUP_FORMAT}:${version}`)
+}
+
+/**
+ * Create an encrypted backup file
+ * @param {TOTPAccount[]} accounts - Accounts to back up
+ * @param {string} passphrase - User-chosen passphrase
+ * @returns {Promise<string>} JSON contents of the backup file
+ */
+export async function createBackup(accounts: TOTPAccount[], passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKeyFromPassphrase(passphrase, salt, PASSPHRASE_KDF_ITERATIONS)
+
+  const payload: BackupPayload = { accounts }
+  const encryptedBuffer = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: iv,
+      additionalData: getAdditionalData(BACKUP_VERSION)
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(payload))
+  )
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PASSPHRASE_KDF_ITERATIONS,
+      salt: arrayBufferToBase64(salt.buffer),
+    },
+    cipher: {
+      name: 'AES-GCM',
+      iv: arrayBufferToBase64(iv.buffer),
+    },
+    data: arrayBufferToBase64(encryptedBuffer),
+  }
+
+  return JSON.stringify(backup, null, 2)
+}
+
+/**
+ * Parse and check the unencrypted envelope of a backup file
+ */
+function parseBackupFile(contents: string): BackupFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(contents)
+  } catch {
+    throw new Error('This file is not a valid backup')
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a My TOTP backup')
+  }
+
+  if (parsed.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${parsed.version}`)
+  }
+
+  const { kdf, cipher } = parsed
+  if (!isRecord(kdf) || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' ||
+      typeof kdf.salt !== 'string' || !Number.isInteger(kdf.iterations) ||
+      !isRecord(cipher) || cipher.name !== 'AES-GCM' || typeof cipher.iv !== 'string' ||
+      typeof parsed.data !== 'string') {
+    throw new Error('Backup file is missing encryption parameters')
+  }
+
+  if (!isAcceptedKdfIterations(kdf.iterations)) {
+    throw new Error('Backup file uses unsupported key derivation settings')
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: kdf.iterations, salt: kdf.salt },
+    cipher: { name: 'AES-GCM', iv: cipher.iv },
+    data: parsed.data
+  }
+}
+
+/**
+ * Decrypt a backup file and validate every account in it
+ * @param {string} contents - JSON contents of the backup file
+ * @param {string} passphrase - Passphrase used when the backup was created
+ * @returns {Promise<RestoredBackup>} Valid accounts and the number of rejected entries
+ */
+export async function restoreBackup(contents: string, passphrase: string): Promise<RestoredBackup> {
+  const backup = parseBackupFile(contents)
+
+  let decryptedJson: string
+  try {
+    const salt = new Uint8Array(base64ToArrayBuffer(backup.kdf.salt))
+    const iv = new Uint8Array(base64ToArrayBuffer(backup.cipher.iv))
+    const key = await deriveKeyFromPassphrase(passphrase, salt, backup.kdf.iterations)
+
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+        additionalData: getAdditionalData(backup.version)
+      },
+      key,
+      base64ToArrayBuffer(backup.data)
+    )
+    decryptedJson = new TextDecoder().decode(decryptedBuffer)
+  } catch (error) {
+    console.error('Backup decryption failed:', error)
+    throw new Error('Wrong passphrase or corrupted backup file')
+  }
+
+  const payload: unknown = JSON.parse(decryptedJson)
+  if (!isRecord(payload) || !Array.isArray(payload.accounts)) {
+    throw new Error('Backup file does not contain any accounts')
+  }
+
+  const accounts: NewTOTPAccount[] = []
+  let invalidCount = 0
+
+  for (const entry of payload.accounts) {
+    const account = sanitizeAccount(entry)
+    if (account) {
+      accounts.push(account)
+    } else {
+      invalidCount++
+    }
+  }
+
+  return {
+    accounts,
+    invalidCount,
+    createdAt: backup.createdAt
+  }
+}
+
+/**
+ * Suggested file name for a backup created now
+ */
+export function getBackupFileName(): string {
+  return `my-totp-backup-${new Date().toISOString().slice(0, 10)}.json`
+}
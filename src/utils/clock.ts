@@ -0,0 +1,90 @@
+/**
+ * Clock drift detection
+ * Infers how far the device clock is off, either from a code a service just accepted
+ * or from the Date header of a time reference server
+ */
+
+import { generateCode, getCodePeriod } from './generators'
+import type { TOTPAccount } from '../types'
+
+// Time steps searched in each direction when calibrating (±10 minutes for 30-second codes)
+export const CALIBRATION_SEARCH_STEPS = 20
+
+// Differences below this are within the precision of the Date header and network delay
+export const CLOCK_DRIFT_WARNING_SECONDS = 10
+
+export interface CalibrationResult {
+  // Correction to add to the current offset, in seconds
+  offsetSeconds: number
+  // Time steps between the device clock and the step the code belongs to
+  steps: number
+}
+
+export interface ReferenceTimeResult {
+  // Correction to add to the current offset, in seconds
+  offsetSeconds: number
+  roundTripMs: number
+}
+
+/**
+ * Find the time step a code belongs to, searching outwards from the current step
+ * @param {TOTPAccount} account - Time-based account the code was generated for
+ * @param {string} code - Code that a service just accepted
+ * @param {number} timestamp - Current (already corrected) time in milliseconds
+ * @returns {CalibrationResult | null} Inferred correction, or null if no nearby step matches
+ */
+export function findTimeOffset(account: TOTPAccount, code: string, timestamp: number): CalibrationResult | null {
+  if (account.type === 'hotp') {
+    throw new Error('Counter-based accounts do not depend on the clock')
+  }
+
+  const period = getCodePeriod(account)
+  const expected = code.replace(/\s/g, '').toLowerCase()
+
+  for (let distance = 0; distance <= CALIBRATION_SEARCH_STEPS; distance++) {
+    // Check the earlier and the later step at each distance before moving further out
+    for (const steps of distance === 0 ? [0] : [-distance, distance]) {
+      const candidate = generateCode(account, timestamp + steps * period * 1000)
+      if (candidate.toLowerCase() === expected) {
+        return { offsetSeconds: steps * period, steps }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Compare the device clock with the Date header of a time reference
+ * The header only has second precision, so the result is rounded to whole seconds
+ * @param {string} url - Reference URL (cross-origin servers must expose the Date header)
+ * @param {Function} getTime - Returns the current (already corrected) time in milliseconds
+ * @returns {Promise<ReferenceTimeResult>} Correction to apply
+ */
+export async function measureReferenceOffset(url: string, getTime: () => number): Promise<ReferenceTimeResult> {
+  const requestUrl = new URL(url, location.href)
+  // Avoid cached responses, which carry the time they were first served
+  requestUrl.searchParams.set('_', String(Date.now()))
+
+  const sentAt = getTime()
+  let response: Response
+  try {
+    response = await fetch(requestUrl, { method: 'HEAD', cache: 'no-store' })
+  } catch {
+    throw new Error('Could not reach the time reference')
+  }
+  const receivedAt = getTime()
+
+  const date = response.headers.get('Date')
+  const referenceTime = date ? Date.parse(date) : NaN
+  if (Number.isNaN(referenceTime)) {
+    throw new Error('The time reference did not send a readable Date header')
+  }
+
+  // The header was generated around the middle of the round trip, somewhere within its second
+  const localMidpoint = sentAt + (receivedAt - sentAt) / 2
+  return {
+    offsetSeconds: Math.round((referenceTime + 500 - localMidpoint) / 1000),
+    roundTripMs: receivedAt - sentAt
+  }
+}
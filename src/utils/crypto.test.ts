@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { encryptData, sealEnvelope, openEnvelope, openLegacyEnvelope } from './crypto'
+
+const keyMaterial = crypto.getRandomValues(new Uint8Array(32)).buffer
+
+describe('openEnvelope', () => {
+  it('opens an envelope sealed for the same context', async () => {
+    const envelope = await sealEnvelope('secret', keyMaterial, 'totp-settings')
+    await expect(openEnvelope(envelope, keyMaterial, 'totp-settings')).resolves.toBe('secret')
+    await expect(openEnvelope(envelope, keyMaterial, 'totp-accounts')).rejects.toThrow()
+  })
+
+  it('rejects values in the legacy format, which only the upgrade reads', async () => {
+    const legacy = await encryptData('secret', keyMaterial)
+    await expect(openEnvelope(legacy, keyMaterial, 'totp-settings')).rejects.toThrow('value has no version')
+    await expect(openLegacyEnvelope(legacy, keyMaterial)).resolves.toBe('secret')
+  })
+})
+
+describe('openLegacyEnvelope', () => {
+  it('rejects versioned envelopes', async () => {
+    const envelope = await sealEnvelope('secret', keyMaterial, 'totp-settings')
+    await expect(openLegacyEnvelope(envelope, keyMaterial)).rejects.toThrow()
+  })
+})
@@ -81,3 +81,218 @@ export async function decryptData(encryptedData: string, keyMaterial: ArrayBuffe
     throw new Error('Failed to decrypt data with passkey - authentication failed or corrupted data')
   }
 }
+
+// Vault envelope: "v2:" + base64(header ‖ salt ‖ IV ‖ ciphertext)
+// The header names the format and algorithms, and is authenticated together with the
+// storage key the value belongs to, so ciphertexts can't be moved between entries
+export const VAULT_ENVELOPE_VERSION = 2
+const ENVELOPE_KDF_HKDF_SHA256 = 1
+const ENVELOPE_CIPHER_AES_256_GCM = 1
+const ENVELOPE_HEADER_LENGTH = 3
+const ENVELOPE_VERSION_PATTERN = /^v(\d+):/
+
+function getEnvelopeAdditionalData(header: Uint8Array, context: string): Uint8Array {
+  const contextBytes = new TextEncoder().encode(context)
+  const additionalData = new Uint8Array(header.length + contextBytes.length)
+  additionalData.set(header, 0)
+  additionalData.set(contextBytes, header.length)
+  return additionalData
+}
+
+/**
+ * Check whether an encrypted value predates the versioned envelope
+ * @param {string} envelope - Encrypted value without the storage prefix
+ */
+export function isLegacyEnvelope(envelope: string): boolean {
+  return !ENVELOPE_VERSION_PATTERN.test(envelope)
+}
+
+/**
+ * Encrypt data into a versioned envelope bound to its storage context
+ * @param {string} data - Data to encrypt
+ * @param {ArrayBuffer} keyMaterial - Vault data key
+ * @param {string} context - Where the value is stored (e.g. the localStorage key), authenticated but not encrypted
+ * @returns {Promise<string>} Envelope string
+ */
+export async function sealEnvelope(data: string, keyMaterial: ArrayBuffer, context: string): Promise<string> {
+  const header = new Uint8Array([VAULT_ENVELOPE_VERSION, ENVELOPE_KDF_HKDF_SHA256, ENVELOPE_CIPHER_AES_256_GCM])
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+
+  try {
+    const key = await deriveKeyFromPasskey(keyMaterial, salt)
+    const encryptedBuffer = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+        additionalData: getEnvelopeAdditionalData(header, context)
+      },
+      key,
+      new TextEncoder().encode(data)
+    )
+
+    const combined = new Uint8Array(header.length + salt.length + iv.length + encryptedBuffer.byteLength)
+    combined.set(header, 0)
+    combined.set(salt, header.length)
+    combined.set(iv, header.length + salt.length)
+    combined.set(new Uint8Array(encryptedBuffer), header.length + salt.length + iv.length)
+
+    return `v${VAULT_ENVELOPE_VERSION}:${arrayBufferToBase64(combined.buffer)}`
+  } catch (error) {
+    console.error('Envelope encryption failed:', error)
+    throw new Error('Failed to encrypt data with passkey')
+  }
+}
+
+/**
+ * Decrypt a versioned envelope
+ * Values in the legacy unversioned format are rejected: they aren't bound to a context, so they
+ * are only read by openLegacyEnvelope while being upgraded
+ * @param {string} envelope - Envelope string
+ * @param {ArrayBuffer} keyMaterial - Vault data key
+ * @param {string} context - Storage context the envelope must have been sealed for
+ * @returns {Promise<string>} Decrypted data
+ */
+export async function openEnvelope(envelope: string, keyMaterial: ArrayBuffer, context: string): Promise<string> {
+  if (isLegacyEnvelope(envelope)) {
+    throw new Error('Unsupported vault format: value has no version')
+  }
+
+  const version = Number(ENVELOPE_VERSION_PATTERN.exec(envelope)![1])
+  if (version !== VAULT_ENVELOPE_VERSION) {
+    throw new Error(`Unsupported vault format version: ${version}`)
+  }
+
+  const combined = new Uint8Array(base64ToArrayBuffer(envelope.slice(envelope.indexOf(':') + 1)))
+  const header = combined.slice(0, ENVELOPE_HEADER_LENGTH)
+  if (header[0] !== VAULT_ENVELOPE_VERSION || header[1] !== ENVELOPE_KDF_HKDF_SHA256 || header[2] !== ENVELOPE_CIPHER_AES_256_GCM) {
+    throw new Error('Unsupported vault envelope header')
+  }
+
+  try {
+    const salt = combined.slice(ENVELOPE_HEADER_LENGTH, ENVELOPE_HEADER_LENGTH + 16)
+    const iv = combined.slice(ENVELOPE_HEADER_LENGTH + 16, ENVELOPE_HEADER_LENGTH + 28)
+    const encrypted = combined.slice(ENVELOPE_HEADER_LENGTH + 28)
+
+    const key = await deriveKeyFromPasskey(keyMaterial, salt)
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+        additionalData: getEnvelopeAdditionalData(header, context)
+      },
+      key,
+      encrypted
+    )
+
+    return new TextDecoder().decode(decryptedBuffer)
+  } catch (error) {
+    console.error('Envelope decryption failed:', error)
+    throw new Error('Failed to decrypt data with passkey - authentication failed or corrupted data')
+  }
+}
+
+/**
+ * Decrypt a value stored before the versioned envelope, only to seal it again with sealEnvelope
+ * @param {string} envelope - Encrypted value without the storage prefix
+ * @param {ArrayBuffer} keyMaterial - Key it was encrypted with
+ * @returns {Promise<string>} Decrypted data
+ */
+export async function openLegacyEnvelope(envelope: string, keyMaterial: ArrayBuffer): Promise<string> {
+  if (!isLegacyEnvelope(envelope)) {
+    throw new Error('Not a value in the legacy vault format')
+  }
+  return decryptData(envelope, keyMaterial)
+}
+
+// PBKDF2 work factor for passphrase-derived keys (OWASP recommendation for PBKDF2-HMAC-SHA256)
+export const PASSPHRASE_KDF_ITERATIONS = 600000
+
+// Work factors accepted from files: fewer iterations make a file easy to brute-force, more
+// would keep the tab busy deriving the key for minutes
+const MIN_PASSPHRASE_KDF_ITERATIONS = 100000
+const MAX_PASSPHRASE_KDF_ITERATIONS = 10000000
+
+/**
+ * Check a PBKDF2 iteration count read from an untrusted file before deriving a key with it
+ * @param {unknown} iterations - Iteration count as stored in the file
+ * @returns {boolean} Whether it is an integer within the accepted range
+ */
+export function isAcceptedKdfIterations(iterations: unknown): iterations is number {
+  return Number.isInteger(iterations) &&
+         (iterations as number) >= MIN_PASSPHRASE_KDF_ITERATIONS &&
+         (iterations as number) <= MAX_PASSPHRASE_KDF_ITERATIONS
+}
+
+// Minimum length accepted for user-chosen passphrases
+export const MIN_PASSPHRASE_LENGTH = 8
+
+/**
+ * Derive an AES-GCM key from a user-chosen passphrase using PBKDF2
+ * @param {string} passphrase - Passphrase entered by the user
+ * @param {Uint8Array} salt - Random salt stored alongside the ciphertext
+ * @param {number} iterations - PBKDF2 iteration count
+ * @returns {Promise<CryptoKey>} Derived encryption key
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PASSPHRASE_KDF_ITERATIONS
+): Promise<CryptoKey> {
+  const importedKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: salt,
+      iterations: iterations,
+    },
+    importedKey,
+    {
+      name: 'AES-GCM',
+      length: 256,
+    },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derive raw key material from a passphrase using PBKDF2
+ * Used where the result feeds the same path as passkey PRF output (e.g. unlocking the vault)
+ * @param {string} passphrase - Passphrase entered by the user
+ * @param {Uint8Array} salt - Random salt stored with the key slot
+ * @param {number} iterations - PBKDF2 iteration count
+ * @returns {Promise<ArrayBuffer>} 256 bits of key material
+ */
+export async function derivePassphraseKeyMaterial(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PASSPHRASE_KDF_ITERATIONS
+): Promise<ArrayBuffer> {
+  const importedKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+
+  return await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: salt,
+      iterations: iterations,
+    },
+    importedKey,
+    256
+  )
+}
@@ -49,4 +49,19 @@ export function base64urlToArrayBuffer(base64url: string): ArrayBuffer {
   }
 
   return base64ToArrayBuffer(base64)
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a hex string to Uint8Array
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string')
+  }
+
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
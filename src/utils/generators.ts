@@ -0,0 +1,191 @@
+/**
+ * Code generators
+ * Turns an account into its current one-time code, for standard RFC 4226/6238 codes
+ * as well as non-standard variants (Steam Guard, Yandex Key, mOTP)
+ */
+
+import { HOTP, Secret } from 'otpauth'
+import { hmac } from '@noble/hashes/hmac'
+import { sha1 } from '@noble/hashes/sha1'
+import { sha256 } from '@noble/hashes/sha2'
+import { md5 } from '@noble/hashes/legacy'
+import type { CodeProvider, TOTPAccount } from '../types'
+
+export interface CodeGenerator {
+  name: string
+  // Fixed code settings for non-standard variants (standard codes use the account's own settings)
+  digits?: number
+  period?: number
+  requiresPin?: boolean
+  /**
+   * Generate the code for a counter value (HOTP counter or TOTP time step)
+   */
+  generate: (account: TOTPAccount, counter: number) => string
+}
+
+const STEAM_ALPHABET = '23456789BCDFGHJKMNPQRTVWXY'
+
+// Yandex Key uses the first 16 bytes of its 26-character secret, the rest is a checksum
+const YANDEX_SECRET_LENGTH = 16
+
+function decodeSecret(account: TOTPAccount): Uint8Array {
+  return Secret.fromBase32(account.secret).bytes
+}
+
+function counterToBytes(counter: number): Uint8Array {
+  const bytes = new Uint8Array(8)
+  let value = counter
+  for (let i = 7; i >= 0; i--) {
+    bytes[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  return bytes
+}
+
+/**
+ * RFC 4226 dynamic truncation to a 31-bit integer
+ */
+function truncate(hash: Uint8Array): number {
+  const offset = hash[hash.length - 1] & 0x0f
+  return ((hash[offset] & 0x7f) << 24) |
+         (hash[offset + 1] << 16) |
+         (hash[offset + 2] << 8) |
+         hash[offset + 3]
+}
+
+const rfcGenerator: CodeGenerator = {
+  name: 'Standard',
+  generate: (account, counter) => HOTP.generate({
+    secret: Secret.fromBase32(account.secret),
+    algorithm: account.algorithm || 'SHA1',
+    digits: account.digits || 6,
+    counter
+  })
+}
+
+const steamGenerator: CodeGenerator = {
+  name: 'Steam Guard',
+  digits: 5,
+  period: 30,
+  generate: (account, counter) => {
+    let value = truncate(hmac(sha1, decodeSecret(account), counterToBytes(counter)))
+
+    let code = ''
+    for (let i = 0; i < 5; i++) {
+      code += STEAM_ALPHABET[value % STEAM_ALPHABET.length]
+      value = Math.floor(value / STEAM_ALPHABET.length)
+    }
+    return code
+  }
+}
+
+const yandexGenerator: CodeGenerator = {
+  name: 'Yandex Key',
+  digits: 8,
+  period: 30,
+  requiresPin: true,
+  generate: (account, counter) => {
+    const secret = decodeSecret(account).slice(0, YANDEX_SECRET_LENGTH)
+    const pin = new TextEncoder().encode(account.pin || '')
+
+    const pinWithSecret = new Uint8Array(pin.length + secret.length)
+    pinWithSecret.set(pin, 0)
+    pinWithSecret.set(secret, pin.length)
+
+    let key = sha256(pinWithSecret)
+    if (key[0] === 0) {
+      key = key.slice(1)
+    }
+
+    const hash = hmac(sha256, key, counterToBytes(counter))
+    const offset = hash[hash.length - 1] & 0x0f
+
+    // Take 8 bytes (63 bits) from the offset, reduced modulo 26^8 and written in base 26
+    let value = BigInt(hash[offset] & 0x7f)
+    for (let i = 1; i < 8; i++) {
+      value = (value << 8n) | BigInt(hash[offset + i])
+    }
+    value %= 26n ** 8n
+
+    const chars: string[] = []
+    for (let i = 0; i < 8; i++) {
+      chars.unshift(String.fromCharCode(97 + Number(value % 26n)))
+      value /= 26n
+    }
+    return chars.join('')
+  }
+}
+
+const motpGenerator: CodeGenerator = {
+  name: 'mOTP',
+  digits: 6,
+  period: 10,
+  requiresPin: true,
+  generate: (account, counter) => {
+    const secretHex = Array.from(decodeSecret(account), byte => byte.toString(16).padStart(2, '0')).join('')
+    const digest = md5(new TextEncoder().encode(`${counter}${secretHex}${account.pin || ''}`))
+    return Array.from(digest.slice(0, 3), byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+}
+
+export const CODE_GENERATORS: Record<CodeProvider, CodeGenerator> = {
+  rfc: rfcGenerator,
+  steam: steamGenerator,
+  yandex: yandexGenerator,
+  motp: motpGenerator,
+}
+
+/**
+ * Get the generator for an account
+ */
+export function getCodeGenerator(account: Pick<TOTPAccount, 'provider'>): CodeGenerator {
+  return CODE_GENERATORS[account.provider || 'rfc'] || rfcGenerator
+}
+
+/**
+ * Get the period in seconds after which an account's code changes
+ */
+export function getCodePeriod(account: TOTPAccount): number {
+  return getCodeGenerator(account).period || account.period || 30
+}
+
+/**
+ * Get the counter value a code is generated from: the HOTP counter, or the current TOTP time step
+ * @param {TOTPAccount} account - Account to generate for
+ * @param {number} timestamp - Time in milliseconds (ignored for HOTP accounts)
+ */
+export function getCodeCounter(account: TOTPAccount, timestamp: number): number {
+  return account.type === 'hotp'
+    ? account.counter || 0
+    : Math.floor(timestamp / 1000 / getCodePeriod(account))
+}
+
+/**
+ * Generate the code for a counter value (see getCodeCounter)
+ */
+export function generateCodeForCounter(account: TOTPAccount, counter: number): string {
+  return getCodeGenerator(account).generate(account, counter)
+}
+
+/**
+ * Group a code for readability, e.g. "123 456"
+ */
+export function formatCode(code: string): string {
+  if (code.length === 6) {
+    return `${code.slice(0, 3)} ${code.slice(3)}`
+  }
+  if (code.length === 8) {
+    return `${code.slice(0, 4)} ${code.slice(4)}`
+  }
+  return code
+}
+
+/**
+ * Generate the current code for an account
+ * @param {TOTPAccount} account - Account to generate for
+ * @param {number} timestamp - Time in milliseconds (ignored for HOTP accounts)
+ * @returns {string} One-time code
+ */
+export function generateCode(account: TOTPAccount, timestamp: number = Date.now()): string {
+  return generateCodeForCounter(account, getCodeCounter(account, timestamp))
+}
@@ -0,0 +1,307 @@
+/**
+ * Account icons
+ * Issuer names are matched against a bundled icon set (served from public/icons/issuers and
+ * precached with the app), and users can upload their own image per account instead
+ */
+
+export interface IssuerIcon {
+  slug: string
+  title: string
+  // Other names the service is known by
+  aliases?: string[]
+}
+
+// Size of uploaded icons after resizing, in pixels
+export const CUSTOM_ICON_SIZE = 64
+
+// Uploads larger than this are rejected before decoding
+const MAX_CUSTOM_ICON_FILE_SIZE = 5 * 1024 * 1024
+
+// Upper bound for a stored icon; a 64x64 PNG is normally well below this
+const MAX_CUSTOM_ICON_LENGTH = 64 * 1024
+
+const ISSUER_ICONS: IssuerIcon[] = [
+  { slug: 'google', title: 'Google' },
+  { slug: 'github', title: 'GitHub' },
+  { slug: 'gitlab', title: 'GitLab' },
+  { slug: 'amazon', title: 'Amazon', aliases: ['AWS', 'Amazon Web Services'] },
+  { slug: 'apple', title: 'Apple', aliases: ['Apple ID'] },
+  { slug: 'facebook', title: 'Facebook', aliases: ['FB'] },
+  { slug: 'meta', title: 'Meta', aliases: ['Oculus'] },
+  { slug: 'instagram', title: 'Instagram' },
+  { slug: 'x', title: 'X', aliases: ['Twitter'] },
+  { slug: 'discord', title: 'Discord' },
+  { slug: 'slack', title: 'Slack' },
+  { slug: 'dropbox', title: 'Dropbox' },
+  { slug: 'reddit', title: 'Reddit' },
+  { slug: 'paypal', title: 'PayPal' },
+  { slug: 'stripe', title: 'Stripe' },
+  { slug: 'coinbase', title: 'Coinbase' },
+  { slug: 'binance', title: 'Binance' },
+  { slug: 'steam', title: 'Steam' },
+  { slug: 'epicgames', title: 'Epic Games', aliases: ['Epic'] },
+  { slug: 'twitch', title: 'Twitch' },
+  { slug: 'ubisoft', title: 'Ubisoft', aliases: ['Uplay', 'Ubisoft Connect'] },
+  { slug: 'ea', title: 'EA', aliases: ['Electronic Arts', 'Origin'] },
+  { slug: 'playstation', title: 'PlayStation', aliases: ['PSN', 'PlayStation Network', 'Sony'] },
+  { slug: 'nintendo', title: 'Nintendo', aliases: ['Nintendo Account'] },
+  { slug: 'battledotnet', title: 'Battle.net', aliases: ['Battlenet', 'Blizzard'] },
+  { slug: 'cloudflare', title: 'Cloudflare' },
+  { slug: 'digitalocean', title: 'DigitalOcean' },
+  { slug: 'heroku', title: 'Heroku' },
+  { slug: 'vercel', title: 'Vercel' },
+  { slug: 'netlify', title: 'Netlify' },
+  { slug: 'npm', title: 'npm', aliases: ['npmjs'] },
+  { slug: 'docker', title: 'Docker', aliases: ['Docker Hub'] },
+  { slug: 'atlassian', title: 'Atlassian', aliases: ['Jira', 'Confluence'] },
+  { slug: 'bitbucket', title: 'Bitbucket' },
+  { slug: 'notion', title: 'Notion' },
+  { slug: 'protonmail', title: 'Proton Mail', aliases: ['Proton'] },
+  { slug: 'tutanota', title: 'Tutanota', aliases: ['Tuta'] },
+  { slug: 'zoho', title: 'Zoho' },
+  { slug: 'bitwarden', title: 'Bitwarden' },
+  { slug: '1password', title: '1Password', aliases: ['AgileBits'] },
+  { slug: 'lastpass', title: 'LastPass' },
+  { slug: 'dashlane', title: 'Dashlane' },
+  { slug: 'okta', title: 'Okta' },
+  { slug: 'auth0', title: 'Auth0' },
+  { slug: 'salesforce', title: 'Salesforce' },
+  { slug: 'shopify', title: 'Shopify' },
+  { slug: 'wordpress', title: 'WordPress' },
+  { slug: 'mailchimp', title: 'MailChimp' },
+  { slug: 'hubspot', title: 'HubSpot' },
+  { slug: 'godaddy', title: 'GoDaddy' },
+  { slug: 'namecheap', title: 'Namecheap' },
+  { slug: 'hetzner', title: 'Hetzner' },
+  { slug: 'ovh', title: 'OVH', aliases: ['OVHcloud'] },
+  { slug: 'vultr', title: 'Vultr' },
+  { slug: 'mongodb', title: 'MongoDB' },
+  { slug: 'firebase', title: 'Firebase' },
+  { slug: 'googlecloud', title: 'Google Cloud', aliases: ['GCP'] },
+  { slug: 'openai', title: 'OpenAI', aliases: ['ChatGPT'] },
+  { slug: 'linkedin', title: 'LinkedIn' },
+  { slug: 'tiktok', title: 'TikTok' },
+  { slug: 'snapchat', title: 'Snapchat' },
+  { slug: 'pinterest', title: 'Pinterest' },
+  { slug: 'tumblr', title: 'Tumblr' },
+  { slug: 'patreon', title: 'Patreon' },
+  { slug: 'kickstarter', title: 'Kickstarter' },
+  { slug: 'wise', title: 'Wise', aliases: ['TransferWise'] },
+  { slug: 'revolut', title: 'Revolut' },
+  { slug: 'n26', title: 'N26' },
+  { slug: 'robinhood', title: 'Robinhood' },
+  { slug: 'kucoin', title: 'KuCoin' },
+  { slug: 'nvidia', title: 'NVIDIA' },
+  { slug: 'ubuntu', title: 'Ubuntu' },
+  { slug: 'mozilla', title: 'Mozilla' },
+  { slug: 'figma', title: 'Figma' },
+  { slug: 'adobe', title: 'Adobe' },
+  { slug: 'canva', title: 'Canva' },
+  { slug: 'trello', title: 'Trello' },
+  { slug: 'asana', title: 'Asana' },
+  { slug: 'zoom', title: 'Zoom' },
+  { slug: 'telegram', title: 'Telegram' },
+  { slug: 'signal', title: 'Signal' },
+  { slug: 'whatsapp', title: 'WhatsApp' },
+  { slug: 'gmail', title: 'Gmail' },
+  { slug: 'icloud', title: 'iCloud' },
+  { slug: 'synology', title: 'Synology' },
+  { slug: 'plex', title: 'Plex' },
+  { slug: 'nextcloud', title: 'Nextcloud' },
+  { slug: 'jetbrains', title: 'JetBrains' },
+  { slug: 'sentry', title: 'Sentry' },
+  { slug: 'circleci', title: 'CircleCI' },
+  { slug: 'pypi', title: 'PyPI' },
+  { slug: 'rubygems', title: 'RubyGems' },
+  { slug: 'porkbun', title: 'Porkbun' }
+]
+
+// Lowercase alphanumerics only, so "Battle.net", "battle net" and "BATTLENET" compare equal
+function normalizeName(name: string): string {
+  return name.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Issuers are sometimes domains (e.g. "accounts.google.com"), keep only the registered name
+function stripDomain(issuer: string): string {
+  const trimmed = issuer.trim()
+  if (/^[\w-]+(\.[\w-]+)+$/.test(trimmed)) {
+    const labels = trimmed.split('.')
+    return labels[labels.length - 2]
+  }
+  return trimmed
+}
+
+let iconIndex: Map<string, IssuerIcon> | null = null
+
+function getIconIndex(): Map<string, IssuerIcon> {
+  if (!iconIndex) {
+    iconIndex = new Map()
+    for (const icon of ISSUER_ICONS) {
+      for (const name of [icon.slug, icon.title, ...(icon.aliases || [])]) {
+        iconIndex.set(normalizeName(name), icon)
+      }
+    }
+  }
+  return iconIndex
+}
+
+// Edit distance where swapping two neighbouring letters counts as one typo
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return rows[a.length][b.length]
+}
+
+// Typos allowed for a name: none for short names, where a single edit often gives another brand
+function getMaxDistance(name: string): number {
+  if (name.length >= 9) return 2
+  if (name.length >= 5) return 1
+  return 0
+}
+
+function findIssuerIcon(issuer: string): IssuerIcon | null {
+  const index = getIconIndex()
+  const exact = index.get(normalizeName(issuer))
+  if (exact) return exact
+
+  const name = normalizeName(stripDomain(issuer))
+  if (!name) return null
+
+  const domain = index.get(name)
+  if (domain) return domain
+
+  // A known name within a longer issuer, e.g. "Google Workspace" or "Epic Games Store"
+  const words = stripDomain(issuer).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+  for (let i = 0; i < words.length - 1; i++) {
+    const pair = index.get(words[i] + words[i + 1])
+    if (pair) return pair
+  }
+  for (const word of words) {
+    const single = index.get(word)
+    if (single && word.length > 1) return single
+  }
+
+  // Misspellings such as "Githbu" or "Dropbx"
+  let best: IssuerIcon | null = null
+  let bestDistance = Infinity
+  for (const [candidate, icon] of index) {
+    const maxDistance = getMaxDistance(candidate)
+    if (maxDistance === 0 || Math.abs(candidate.length - name.length) > maxDistance) continue
+
+    const distance = editDistance(name, candidate)
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = icon
+      bestDistance = distance
+    }
+  }
+
+  return best
+}
+
+const resolvedIcons = new Map<string, IssuerIcon | null>()
+
+/**
+ * Find the bundled icon for an issuer, by name, alias or close spelling
+ * @param {string | undefined} issuer - Issuer of the account
+ * @returns {IssuerIcon | null} Matching icon, or null if none is close enough
+ */
+export function resolveIssuerIcon(issuer: string | undefined): IssuerIcon | null {
+  if (!issuer) return null
+
+  if (!resolvedIcons.has(issuer)) {
+    resolvedIcons.set(issuer, findIssuerIcon(issuer))
+  }
+  return resolvedIcons.get(issuer) || null
+}
+
+/**
+ * URL of a bundled issuer icon
+ */
+export function getIssuerIconUrl(icon: IssuerIcon): string {
+  return `${import.meta.env.BASE_URL}icons/issuers/${icon.slug}.svg`
+}
+
+/**
+ * Check that a stored custom icon is an image data URL we created
+ */
+export function isCustomIcon(value: unknown): value is string {
+  return typeof value === 'string' &&
+         value.length <= MAX_CUSTOM_ICON_LENGTH &&
+         /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/.test(value)
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('This file is not a supported image'))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * Turn an uploaded image into a small square icon
+ * The image is cropped to its centre and re-encoded as PNG, so nothing but pixels is stored
+ * @param {File} file - Image chosen by the user
+ * @returns {Promise<string>} PNG data URL to store on the account
+ */
+export async function createCustomIcon(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file')
+  }
+  if (file.size > MAX_CUSTOM_ICON_FILE_SIZE) {
+    throw new Error('Image is too large (max 5 MB)')
+  }
+
+  const image = await loadImage(file)
+  const side = Math.min(image.naturalWidth, image.naturalHeight)
+  if (!side) {
+    throw new Error('This file is not a supported image')
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = CUSTOM_ICON_SIZE
+  canvas.height = CUSTOM_ICON_SIZE
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Image processing is not available')
+  }
+
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    CUSTOM_ICON_SIZE,
+    CUSTOM_ICON_SIZE
+  )
+
+  const icon = canvas.toDataURL('image/png')
+  if (!isCustomIcon(icon)) {
+    throw new Error('Image could not be converted')
+  }
+  return icon
+}
@@ -0,0 +1,477 @@
+/**
+ * Importers for export files from other authenticator apps
+ * Supports Aegis (plain and encrypted), 2FAS, andOTP, Bitwarden JSON/CSV and plain otpauth URI lists
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt'
+import { base64ToArrayBuffer, hexToBytes } from './encoding'
+import { sanitizeAccount, isRecord } from './accounts'
+import { parseOtpauthUri, parseSteamUri } from './otpauth'
+import { CODE_GENERATORS } from './generators'
+import { isMigrationUri, parseMigrationUri } from './migration'
+import type { ImportCandidate } from '../types'
+
+export type ImportFormat = 'aegis' | '2fas' | 'andotp' | 'bitwarden-json' | 'bitwarden-csv' | 'otpauth-list'
+
+export const IMPORT_FORMAT_NAMES: Record<ImportFormat, string> = {
+  'aegis': 'Aegis vault',
+  '2fas': '2FAS backup',
+  'andotp': 'andOTP backup',
+  'bitwarden-json': 'Bitwarden JSON export',
+  'bitwarden-csv': 'Bitwarden CSV export',
+  'otpauth-list': 'List of otpauth URIs',
+}
+
+export interface DetectedImport {
+  format: ImportFormat
+  encrypted: boolean
+}
+
+// Iteration count used by 2FAS for encrypted backups
+const TWOFAS_PBKDF2_ITERATIONS = 10000
+
+// Aegis key slot type for password-derived keys
+const AEGIS_SLOT_PASSWORD = 1
+
+// scrypt costs accepted from Aegis vaults (Aegis itself uses N = 2^15, r = 8, p = 1); more would
+// freeze the tab or run it out of memory
+const MAX_AEGIS_SCRYPT_N = 2 ** 20
+const MAX_AEGIS_SCRYPT_R = 16
+const MAX_AEGIS_SCRYPT_P = 16
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Build an import candidate from entry fields as found in the file, flagging anything we can't handle
+ * Fields of the wrong type count as missing, or make the entry unsupported
+ */
+function createCandidate(entry: {
+  name?: unknown
+  issuer?: unknown
+  secret?: unknown
+  algorithm?: unknown
+  digits?: unknown
+  period?: unknown
+  counter?: unknown
+  pin?: unknown
+  // OTP type or, for apps that treat them as types, a non-standard variant such as "steam"
+  type?: unknown
+}): ImportCandidate {
+  const issuer = getString(entry.issuer)?.trim() || undefined
+  const name = getString(entry.name)?.trim() || issuer || 'Unnamed account'
+  const candidate: ImportCandidate = { name, issuer, account: null }
+
+  const type = (getString(entry.type) || 'totp').toLowerCase()
+  const provider = type in CODE_GENERATORS && type !== 'rfc' ? type : 'rfc'
+  if (type !== 'totp' && type !== 'hotp' && provider === 'rfc') {
+    candidate.unsupportedReason = `${type.toUpperCase()} codes are not supported`
+    return candidate
+  }
+
+  candidate.account = sanitizeAccount({
+    type: provider === 'rfc' ? type : 'totp',
+    provider,
+    pin: entry.pin,
+    label: name,
+    issuer,
+    secret: entry.secret,
+    algorithm: typeof entry.algorithm === 'string' ? entry.algorithm.toUpperCase() : entry.algorithm,
+    digits: entry.digits,
+    period: entry.period,
+    counter: entry.counter,
+  })
+
+  if (!candidate.account) {
+    candidate.unsupportedReason = 'Invalid secret or code settings'
+  }
+
+  return candidate
+}
+
+/**
+ * Turn an otpauth:// URI (or a raw secret) into an import candidate
+ */
+function candidateFromTotpField(value: string, name: string, issuer?: string): ImportCandidate {
+  const trimmed = value.trim()
+
+  if (!trimmed.startsWith('otpauth://') && !trimmed.startsWith('steam://')) {
+    return createCandidate({ name, issuer, secret: trimmed })
+  }
+
+  try {
+    if (trimmed.startsWith('steam://')) {
+      const account = parseSteamUri(trimmed, name)
+      return createCandidate({ ...account, name, type: 'steam' })
+    }
+
+    const account = parseOtpauthUri(trimmed)
+    return createCandidate({
+      ...account,
+      name: account.label,
+      issuer: account.issuer || issuer,
+      type: account.provider === 'steam' ? 'steam' : account.type
+    })
+  } catch (error) {
+    return {
+      name,
+      issuer,
+      account: null,
+      unsupportedReason: error instanceof Error ? error.message : 'Invalid otpauth URI'
+    }
+  }
+}
+
+/**
+ * Decrypt AES-GCM data where the authentication tag is stored separately
+ */
+async function decryptAesGcm(key: Uint8Array, nonce: Uint8Array, ciphertext: Uint8Array, tag: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['decrypt'])
+  const combined = new Uint8Array(ciphertext.length + tag.length)
+  combined.set(ciphertext, 0)
+  combined.set(tag, ciphertext.length)
+
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, cryptoKey, combined)
+  return new Uint8Array(decrypted)
+}
+
+function isAcceptedScryptCost(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max
+}
+
+/**
+ * Check the scrypt costs of an Aegis key slot before deriving a key with them
+ */
+function isAcceptedAegisSlot(slot: Record<string, unknown>): slot is Record<string, unknown> & { n: number, r: number, p: number } {
+  // N must be a power of two greater than 1
+  return isAcceptedScryptCost(slot.n, MAX_AEGIS_SCRYPT_N) && slot.n > 1 && (slot.n & (slot.n - 1)) === 0 &&
+         isAcceptedScryptCost(slot.r, MAX_AEGIS_SCRYPT_R) &&
+         isAcceptedScryptCost(slot.p, MAX_AEGIS_SCRYPT_P)
+}
+
+/**
+ * Unlock an encrypted Aegis vault by trying each password slot
+ */
+async function decryptAegisDatabase(vault: Record<string, unknown>, password: string): Promise<unknown> {
+  const header = isRecord(vault.header) ? vault.header : {}
+  const passwordSlots = (Array.isArray(header.slots) ? header.slots : [])
+    .filter(isRecord)
+    .filter(slot => slot.type === AEGIS_SLOT_PASSWORD)
+  if (passwordSlots.length === 0) {
+    throw new Error('This Aegis vault has no password slot')
+  }
+
+  const slots = passwordSlots.filter(isAcceptedAegisSlot)
+  if (slots.length === 0) {
+    throw new Error('This Aegis vault uses unsupported key derivation settings')
+  }
+
+  let masterKey: Uint8Array | null = null
+  for (const slot of slots) {
+    const keyParams = isRecord(slot.key_params) ? slot.key_params : {}
+    if (typeof slot.salt !== 'string' || typeof slot.key !== 'string' ||
+        typeof keyParams.nonce !== 'string' || typeof keyParams.tag !== 'string') {
+      continue
+    }
+
+    try {
+      const derivedKey = await scryptAsync(new TextEncoder().encode(password), hexToBytes(slot.salt), {
+        N: slot.n,
+        r: slot.r,
+        p: slot.p,
+        dkLen: 32
+      })
+      masterKey = await decryptAesGcm(
+        derivedKey,
+        hexToBytes(keyParams.nonce),
+        hexToBytes(slot.key),
+        hexToBytes(keyParams.tag)
+      )
+      break
+    } catch {
+      // Wrong password for this slot, try the next one
+      continue
+    }
+  }
+
+  if (!masterKey) {
+    throw new Error('Wrong password for this Aegis vault')
+  }
+
+  const params = isRecord(header.params) ? header.params : {}
+  if (typeof params.nonce !== 'string' || typeof params.tag !== 'string' || typeof vault.db !== 'string') {
+    throw new Error('Aegis vault is malformed')
+  }
+
+  const decrypted = await decryptAesGcm(
+    masterKey,
+    hexToBytes(params.nonce),
+    new Uint8Array(base64ToArrayBuffer(vault.db)),
+    hexToBytes(params.tag)
+  )
+  return JSON.parse(new TextDecoder().decode(decrypted))
+}
+
+async function parseAegis(vault: Record<string, unknown>, password?: string): Promise<ImportCandidate[]> {
+  let db = vault.db
+  if (typeof db === 'string') {
+    if (!password) {
+      throw new Error('This Aegis vault is encrypted. Enter its password to continue.')
+    }
+    db = await decryptAegisDatabase(vault, password)
+  }
+
+  if (!isRecord(db) || !Array.isArray(db.entries)) {
+    throw new Error('Aegis vault has no entries')
+  }
+
+  return db.entries.filter(isRecord).map(entry => {
+    const info = isRecord(entry.info) ? entry.info : {}
+    return createCandidate({
+      name: entry.name,
+      issuer: entry.issuer,
+      secret: info.secret,
+      algorithm: info.algo,
+      digits: info.digits,
+      period: info.period,
+      counter: info.counter,
+      pin: info.pin,
+      type: entry.type,
+    })
+  })
+}
+
+/**
+ * Decrypt a 2FAS "servicesEncrypted" value (ciphertext:salt:iv, all base64)
+ */
+async function decryptTwoFasServices(servicesEncrypted: string, password: string): Promise<unknown> {
+  const [ciphertext, salt, iv] = servicesEncrypted.split(':').map(part => base64ToArrayBuffer(part))
+  if (!ciphertext || !salt || !iv) {
+    throw new Error('2FAS backup is malformed')
+  }
+
+  try {
+    const passwordKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey'])
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: TWOFAS_PBKDF2_ITERATIONS },
+      passwordKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['decrypt']
+    )
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
+    return JSON.parse(new TextDecoder().decode(decrypted))
+  } catch {
+    throw new Error('Wrong password for this 2FAS backup')
+  }
+}
+
+async function parseTwoFas(backup: Record<string, unknown>, password?: string): Promise<ImportCandidate[]> {
+  let services = backup.services
+  if ((!Array.isArray(services) || services.length === 0) && typeof backup.servicesEncrypted === 'string') {
+    if (!password) {
+      throw new Error('This 2FAS backup is encrypted. Enter its password to continue.')
+    }
+    services = await decryptTwoFasServices(backup.servicesEncrypted, password)
+  }
+
+  if (!Array.isArray(services)) {
+    throw new Error('2FAS backup has no services')
+  }
+
+  return services.filter(isRecord).map(service => {
+    const otp = isRecord(service.otp) ? service.otp : {}
+    return createCandidate({
+      name: getString(otp.account) || getString(otp.label) || service.name,
+      issuer: getString(otp.issuer) || service.name,
+      secret: service.secret,
+      algorithm: otp.algorithm,
+      digits: otp.digits,
+      period: otp.period,
+      counter: otp.counter,
+      type: otp.tokenType,
+    })
+  })
+}
+
+function parseAndOtp(entries: unknown[]): ImportCandidate[] {
+  return entries.filter(isRecord).map(entry => createCandidate({
+    name: entry.label,
+    issuer: entry.issuer,
+    secret: entry.secret,
+    algorithm: entry.algorithm,
+    digits: entry.digits,
+    period: entry.period,
+    counter: entry.counter,
+    type: entry.type,
+  }))
+}
+
+function parseBitwardenJson(backup: Record<string, unknown>): ImportCandidate[] {
+  if (backup.encrypted) {
+    throw new Error('Encrypted Bitwarden exports are not supported. Export as unencrypted JSON instead.')
+  }
+
+  const items: unknown[] = Array.isArray(backup.items) ? backup.items : []
+  const candidates: ImportCandidate[] = []
+
+  for (const item of items) {
+    if (!isRecord(item) || !isRecord(item.login)) continue
+
+    const { totp, username } = item.login
+    if (typeof totp !== 'string' || !totp.trim()) continue
+
+    const name = typeof item.name === 'string' ? item.name : undefined
+    candidates.push(candidateFromTotpField(totp, (typeof username === 'string' && username) || name || '', name))
+  }
+  return candidates
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function parseBitwardenCsv(text: string): ImportCandidate[] {
+  const [header, ...rows] = parseCsv(text)
+  const column = (name: string) => header.indexOf(name)
+  const totpIndex = column('login_totp')
+  const nameIndex = column('name')
+  const usernameIndex = column('login_username')
+
+  return rows
+    .filter(row => row[totpIndex]?.trim())
+    .map(row => candidateFromTotpField(row[totpIndex], row[usernameIndex] || row[nameIndex], row[nameIndex]))
+}
+
+function parseOtpauthList(text: string): ImportCandidate[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.startsWith('otpauth'))
+    .flatMap((line): ImportCandidate[] => {
+      if (isMigrationUri(line)) {
+        try {
+          return parseMigrationUri(line).entries
+        } catch {
+          return [{ name: 'Google Authenticator transfer', account: null, unsupportedReason: 'Invalid transfer URI' }]
+        }
+      }
+      return [candidateFromTotpField(line, 'Unnamed account')]
+    })
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Work out which app produced an export file
+ * @param {string} contents - File contents
+ * @returns {DetectedImport} Detected format and whether it needs a password
+ */
+export function detectImportFormat(contents: string): DetectedImport {
+  const json = tryParseJson(contents)
+
+  if (isRecord(json)) {
+    if (json.header && json.db !== undefined) {
+      return { format: 'aegis', encrypted: typeof json.db === 'string' }
+    }
+    if (Array.isArray(json.services) || typeof json.servicesEncrypted === 'string') {
+      const hasPlainServices = Array.isArray(json.services) && json.services.length > 0
+      return { format: '2fas', encrypted: !hasPlainServices && typeof json.servicesEncrypted === 'string' }
+    }
+    if (Array.isArray(json) && json.every(entry => isRecord(entry) && typeof entry.secret === 'string')) {
+      return { format: 'andotp', encrypted: false }
+    }
+    if (Array.isArray(json.items)) {
+      return { format: 'bitwarden-json', encrypted: Boolean(json.encrypted) }
+    }
+  }
+
+  const firstLine = contents.split(/\r?\n/, 1)[0]
+  if (firstLine.split(',').includes('login_totp')) {
+    return { format: 'bitwarden-csv', encrypted: false }
+  }
+
+  if (/^\s*otpauth(-migration)?:\/\//m.test(contents)) {
+    return { format: 'otpauth-list', encrypted: false }
+  }
+
+  throw new Error('Unrecognised file. Supported formats: Aegis, 2FAS, andOTP, Bitwarden and otpauth URI lists.')
+}
+
+/**
+ * Parse an export file into import candidates
+ * @param {string} contents - File contents
+ * @param {string} password - Password for encrypted exports
+ * @returns {Promise<ImportCandidate[]>} Entries found in the file
+ */
+export async function parseImportFile(contents: string, password?: string): Promise<ImportCandidate[]> {
+  const { format } = detectImportFormat(contents)
+  // Only read by the formats that were detected from their JSON structure
+  const json = tryParseJson(contents)
+  const file = isRecord(json) ? json : {}
+
+  switch (format) {
+    case 'aegis':
+      return parseAegis(file, password)
+    case '2fas':
+      return parseTwoFas(file, password)
+    case 'andotp':
+      return parseAndOtp(Array.isArray(json) ? json : [])
+    case 'bitwarden-json':
+      return parseBitwardenJson(file)
+    case 'bitwarden-csv':
+      return parseBitwardenCsv(contents)
+    case 'otpauth-list':
+      return parseOtpauthList(contents)
+  }
+}
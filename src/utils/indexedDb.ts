@@ -0,0 +1,107 @@
+/**
+ * IndexedDB storage adapter
+ * Values live in a single object store keyed by the same keys the localStorage adapter uses
+ */
+
+import type { StorageAdapter } from './storage'
+
+const DB_NAME = 'my-totp'
+const DB_VERSION = 1
+const STORE_NAME = 'vault'
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open the database, creating or upgrading its store
+ * @param {() => void} onClose - Called when the connection is closed to let another tab upgrade the database
+ */
+function openDatabase(onClose: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME)
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // A newer version of the app is upgrading the database in another tab: step aside, so
+      // it doesn't wait for this tab
+      db.onversionchange = () => {
+        db.close()
+        onClose()
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    // Not an error: the open completes once the other tabs have closed their connections.
+    // Falling back to localStorage instead would leave this tab's changes outside the database
+    request.onblocked = () => console.warn('IndexedDB upgrade waiting for other tabs to close the database')
+  })
+}
+
+/**
+ * Open the vault database and create an adapter for it
+ */
+export async function createIndexedDbAdapter(): Promise<StorageAdapter> {
+  // Reopened on next use after being closed for another tab's upgrade
+  let connection: Promise<IDBDatabase> | null = null
+  const getDatabase = (): Promise<IDBDatabase> => {
+    connection ??= openDatabase(() => { connection = null }).catch((error) => {
+      connection = null
+      throw error
+    })
+    return connection
+  }
+  await getDatabase()
+
+  return {
+    backend: 'indexeddb',
+
+    async get(key) {
+      const db = await getDatabase()
+      const value = await promisifyRequest(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key))
+      return typeof value === 'string' ? value : null
+    },
+
+    async entries(prefix = '') {
+      const db = await getDatabase()
+      const store = db.transaction(STORE_NAME).objectStore(STORE_NAME)
+      // U+FFFF sorts after any character used in keys, so the range covers every key with the prefix
+      const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined
+      const [keys, values] = await Promise.all([
+        promisifyRequest(store.getAllKeys(range)),
+        promisifyRequest(store.getAll(range))
+      ])
+      return keys.map((key, index) => [String(key), values[index]] as [string, string])
+    },
+
+    async write({ set = [], remove = [] }) {
+      const db = await getDatabase()
+      return new Promise((resolve, reject) => {
+        // One transaction, so either every change is applied or none
+        const transaction = db.transaction(STORE_NAME, 'readwrite')
+        const store = transaction.objectStore(STORE_NAME)
+        for (const [key, value] of set) {
+          store.put(value, key)
+        }
+        for (const key of remove) {
+          store.delete(key)
+        }
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'))
+      })
+    }
+  }
+}
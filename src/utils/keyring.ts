@@ -0,0 +1,172 @@
+/**
+ * Vault keyring
+ * The vault is encrypted with a random data key. Each enrolled unlock method (key slot)
+ * stores its own copy of that data key, wrapped with the method's key material, so
+ * methods can be added or revoked without re-encrypting the vault
+ */
+
+import { sealEnvelope, openEnvelope, openLegacyEnvelope, derivePassphraseKeyMaterial, isAcceptedKdfIterations, PASSPHRASE_KDF_ITERATIONS, MIN_PASSPHRASE_LENGTH } from './crypto'
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding'
+import { getVaultKeyPrefix, DEFAULT_VAULT_ID } from './vaults'
+
+const KEYRING_STORAGE_KEY = 'vault-keyring'
+const KEYRING_VERSION = 1
+
+export type KeySlotType = 'passkey' | 'passphrase'
+
+export interface PassphraseKdfParams {
+  name: 'PBKDF2'
+  hash: 'SHA-256'
+  iterations: number
+  salt: string
+}
+
+export interface KeySlot {
+  id: string
+  type: KeySlotType
+  label: string
+  createdAt: number
+  // Passkey slots: WebAuthn credential ID (base64url)
+  credentialId?: string
+  // Passphrase slots: parameters to re-derive the key material
+  kdf?: PassphraseKdfParams
+  // Data key encrypted with this slot's key material
+  wrappedKey: string
+}
+
+export interface Keyring {
+  version: number
+  slots: KeySlot[]
+  // Slots of a data key being rotated out, kept until the vault is re-encrypted under the new one
+  previousSlots?: KeySlot[]
+}
+
+/**
+ * Generate a fresh random data key
+ * @returns {ArrayBuffer} 256-bit key material
+ */
+export function generateDataKey(): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(32)).buffer
+}
+
+// A wrapped data key is bound to its vault and slot, so it can't be passed off as another slot's
+function getWrappedKeyContext(vaultId: string, slotId: string): string {
+  return `${getKeyringStorageKey(vaultId)}/${slotId}`
+}
+
+/**
+ * Encrypt the data key with a slot's key material
+ * @param {ArrayBuffer} dataKey - Vault data key
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method (e.g. passkey PRF output)
+ * @param {string} vaultId - ID of the vault
+ * @param {string} slotId - ID of the slot that stores the wrapped key
+ * @returns {Promise<string>} Wrapped data key
+ */
+export async function wrapDataKey(dataKey: ArrayBuffer, keyMaterial: ArrayBuffer, vaultId: string, slotId: string): Promise<string> {
+  return sealEnvelope(arrayBufferToBase64(dataKey), keyMaterial, getWrappedKeyContext(vaultId, slotId))
+}
+
+/**
+ * Decrypt the data key stored in a slot
+ * @param {string} wrappedKey - Wrapped data key from the slot
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method
+ * @param {string} vaultId - ID of the vault
+ * @param {string} slotId - ID of the slot the key was wrapped for
+ * @returns {Promise<ArrayBuffer>} Vault data key
+ */
+export async function unwrapDataKey(wrappedKey: string, keyMaterial: ArrayBuffer, vaultId: string, slotId: string): Promise<ArrayBuffer> {
+  return base64ToArrayBuffer(await openEnvelope(wrappedKey, keyMaterial, getWrappedKeyContext(vaultId, slotId)))
+}
+
+/**
+ * Decrypt the data key of a slot wrapped before the versioned envelope, only to wrap it again
+ * @param {string} wrappedKey - Wrapped data key from the slot
+ * @param {ArrayBuffer} keyMaterial - Key material of the unlock method
+ * @returns {Promise<ArrayBuffer>} Vault data key
+ */
+export async function unwrapLegacyDataKey(wrappedKey: string, keyMaterial: ArrayBuffer): Promise<ArrayBuffer> {
+  return base64ToArrayBuffer(await openLegacyEnvelope(wrappedKey, keyMaterial))
+}
+
+/**
+ * Derive key material for a new passphrase slot with a fresh salt
+ * @param {string} passphrase - Master passphrase chosen by the user
+ * @returns KDF parameters to store in the slot and the derived key material
+ */
+export async function createPassphraseKeyMaterial(passphrase: string): Promise<{ kdf: PassphraseKdfParams, keyMaterial: ArrayBuffer }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const kdf: PassphraseKdfParams = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PASSPHRASE_KDF_ITERATIONS,
+    salt: arrayBufferToBase64(salt.buffer)
+  }
+
+  return {
+    kdf,
+    keyMaterial: await derivePassphraseKeyMaterial(passphrase, salt, kdf.iterations)
+  }
+}
+
+/**
+ * Re-derive the key material of an existing passphrase slot
+ * @param {string} passphrase - Passphrase entered by the user
+ * @param {PassphraseKdfParams} kdf - Parameters stored in the slot
+ * @returns {Promise<ArrayBuffer>} Key material to unlock the slot with
+ */
+export async function derivePassphraseSlotKeyMaterial(passphrase: string, kdf: PassphraseKdfParams): Promise<ArrayBuffer> {
+  // Slots are read back from storage, so they get the same check as parameters from a file
+  if (!isAcceptedKdfIterations(kdf.iterations) || typeof kdf.salt !== 'string') {
+    throw new Error('This passphrase uses unsupported key derivation settings')
+  }
+  return derivePassphraseKeyMaterial(passphrase, new Uint8Array(base64ToArrayBuffer(kdf.salt)), kdf.iterations)
+}
+
+function getKeyringStorageKey(vaultId: string): string {
+  return `${getVaultKeyPrefix(vaultId)}${KEYRING_STORAGE_KEY}`
+}
+
+/**
+ * Load a vault's keyring from localStorage
+ * @param {string} vaultId - ID of the vault
+ * @returns {Keyring | null} Stored keyring, or null for vaults created before multiple unlock methods
+ */
+export function loadKeyring(vaultId: string = DEFAULT_VAULT_ID): Keyring | null {
+  const stored = localStorage.getItem(getKeyringStorageKey(vaultId))
+  if (!stored) return null
+
+  try {
+    const keyring = JSON.parse(stored)
+    if (!Array.isArray(keyring?.slots)) return null
+    return Array.isArray(keyring.previousSlots) ? keyring : { ...keyring, previousSlots: undefined }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Persist a vault's keyring to localStorage
+ * @param {KeySlot[]} slots - Key slots to store
+ * @param {string} vaultId - ID of the vault
+ * @param {KeySlot[]} previousSlots - Slots of the data key being rotated out, if any
+ */
+export function saveKeyring(slots: KeySlot[], vaultId: string = DEFAULT_VAULT_ID, previousSlots: KeySlot[] = []): void {
+  const keyring: Keyring = {
+    version: KEYRING_VERSION,
+    slots,
+    ...(previousSlots.length > 0 ? { previousSlots } : {})
+  }
+  localStorage.setItem(getKeyringStorageKey(vaultId), JSON.stringify(keyring))
+}
+
+/**
+ * Remove a vault's keyring, after which nothing can unlock its data
+ * @param {string} vaultId - ID of the vault
+ */
+export function removeKeyring(vaultId: string): void {
+  localStorage.removeItem(getKeyringStorageKey(vaultId))
+}
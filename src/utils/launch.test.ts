@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { findOtpauthUri } from './launch'
+
+describe('findOtpauthUri', () => {
+  it('finds otpauth URIs in shared text', () => {
+    expect(findOtpauthUri('Add this account: otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP (from Example)'))
+      .toBe('otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP')
+    expect(findOtpauthUri('otpauth-migration://offline?data=CjEKCkhlbGxv')).toBe('otpauth-migration://offline?data=CjEKCkhlbGxv')
+  })
+
+  it('maps the registered web+ schemes back to the standard ones', () => {
+    expect(findOtpauthUri('web+otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP')).toBe('otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP')
+    expect(findOtpauthUri('web+otpauthmigration://offline?data=CjEKCkhlbGxv')).toBe('otpauth-migration://offline?data=CjEKCkhlbGxv')
+  })
+
+  it('ignores text without an otpauth URI', () => {
+    expect(findOtpauthUri('https://example.com/?secret=JBSWY3DPEHPK3PXP')).toBeNull()
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Accounts handed to the app from outside: otpauth links opened with the installed app
+ * (protocol handler) and text or images shared to it (share target)
+ * Browsers only let web apps handle a few safelisted schemes plus web+ ones, whose names may
+ * only contain lowercase letters, so links arrive as web+otpauth:// and web+otpauthmigration://
+ */
+
+// Must match the manifest in vite.config.ts
+const LAUNCH_URI_PARAM = 'uri'
+const SHARE_TARGET_PARAM = 'share-target'
+
+// Must match public/share-target-sw.js
+const SHARE_CACHE_NAME = 'share-target'
+
+export type LaunchItem =
+  | { type: 'uri', uri: string }
+  | { type: 'image', image: Blob }
+
+// otpauth://, otpauth-migration:// and the web+ schemes the installed app registers for them
+const OTPAUTH_URI_PATTERN = /(?:web\+otpauth(?:migration)?|otpauth(?:-migration)?):\/\/[^\s"'<>]+/i
+
+/**
+ * Find an otpauth or otpauth-migration URI in text, e.g. a shared message
+ * @param {string} text - Text that may contain a URI
+ * @returns {string | null} The URI with its standard scheme, or null if there is none
+ */
+export function findOtpauthUri(text: string): string | null {
+  const match = text.match(OTPAUTH_URI_PATTERN)
+  return match ? match[0].replace(/^web\+otpauthmigration:/i, 'otpauth-migration:').replace(/^web\+/i, '') : null
+}
+
+// The service worker parks a share in a cache; it is removed as soon as it's read
+async function takeSharedItem(): Promise<LaunchItem | null> {
+  if (typeof caches === 'undefined') return null
+
+  const cache = await caches.open(SHARE_CACHE_NAME)
+  const getEntryUrl = (name: string): string => new URL(`${import.meta.env.BASE_URL}share-target/${name}`, location.origin).href
+  const [fields, image] = await Promise.all([cache.match(getEntryUrl('fields')), cache.match(getEntryUrl('image'))])
+  await caches.delete(SHARE_CACHE_NAME)
+
+  const uri = fields ? findOtpauthUri(await fields.text()) : null
+  if (uri) {
+    return { type: 'uri', uri }
+  }
+  if (image) {
+    return { type: 'image', image: await image.blob() }
+  }
+  if (fields) {
+    throw new Error('The shared text does not contain an otpauth link')
+  }
+  return null
+}
+
+/**
+ * Take the link or share the app was opened with, if any
+ * The launch parameters are removed from the address so a reload doesn't offer the account again
+ * @returns {Promise<LaunchItem | null>} The item to add, or null for a normal launch
+ */
+export async function takeLaunchItem(): Promise<LaunchItem | null> {
+  const params = new URLSearchParams(location.search)
+  const launchUri = params.get(LAUNCH_URI_PARAM)
+  const isShare = params.has(SHARE_TARGET_PARAM)
+  if (launchUri === null && !isShare) return null
+
+  params.delete(LAUNCH_URI_PARAM)
+  params.delete(SHARE_TARGET_PARAM)
+  const search = params.toString()
+  history.replaceState(history.state, '', `${location.pathname}${search ? `?${search}` : ''}${location.hash}`)
+
+  if (launchUri === null) {
+    return takeSharedItem()
+  }
+
+  const uri = findOtpauthUri(launchUri)
+  if (!uri) {
+    throw new Error('The app was opened with a link that is not an otpauth link')
+  }
+  return { type: 'uri', uri }
+}
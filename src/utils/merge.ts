@@ -0,0 +1,83 @@
+/**
+ * Merging lists of records (JSON by id) that were changed in two places
+ * Used between tabs sharing the vault and between devices syncing through a server
+ */
+
+/**
+ * Whether two lists of records hold the same records, regardless of order
+ */
+export function hasSameRecords(a: Map<string, string>, b: Map<string, string>): boolean {
+  return a.size === b.size && [...a].every(([id, json]) => b.get(id) === json)
+}
+
+/**
+ * Three-way merge of records by id
+ * A change made on one side since the common base is kept. When both sides changed a record,
+ * the later change wins, and an edit wins over a deletion so nothing is lost silently
+ * @param {Map<string, string>} base - Records both sides started from
+ * @param {Map<string, string>} ours - Records here
+ * @param {Map<string, string>} theirs - Records on the other side
+ * @param {Record<string, number>} theirModifiedAt - When the other side last changed each record
+ * @param {number} ourChangeTime - When the records here were changed
+ * @returns {Map<string, string>} Merged records, in our order followed by records only the other side has
+ */
+export function mergeRecords(
+  base: Map<string, string>,
+  ours: Map<string, string>,
+  theirs: Map<string, string>,
+  theirModifiedAt: Record<string, number>,
+  ourChangeTime: number
+): Map<string, string> {
+  const merged = new Map<string, string>()
+
+  for (const id of new Set([...ours.keys(), ...theirs.keys()])) {
+    const baseJson = base.get(id)
+    const ourJson = ours.get(id)
+    const theirJson = theirs.get(id)
+
+    let json: string | undefined
+    if (ourJson === baseJson) {
+      json = theirJson
+    } else if (theirJson === baseJson || theirJson === ourJson) {
+      json = ourJson
+    } else if (ourJson === undefined || theirJson === undefined) {
+      json = ourJson ?? theirJson
+    } else {
+      json = (theirModifiedAt[id] ?? 0) > ourChangeTime ? theirJson : ourJson
+    }
+
+    if (json !== undefined) {
+      merged.set(id, json)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Two-way merge of two copies of the same records that have no common base
+ * A record only one copy has is kept: without a base, a record the other copy deleted can't be
+ * told apart from one it never had. When both have a record and it differs, the later change wins
+ * @param {Map<string, string>} first - Records of the copy that wins ties
+ * @param {Record<string, number>} firstModifiedAt - When the first copy last changed each record
+ * @param {Map<string, string>} second - Records of the other copy
+ * @param {Record<string, number>} secondModifiedAt - When the other copy last changed each record
+ * @returns {Map<string, string>} Merged records, in the first copy's order followed by records only the other has
+ */
+export function mergeRecordCopies(
+  first: Map<string, string>,
+  firstModifiedAt: Record<string, number>,
+  second: Map<string, string>,
+  secondModifiedAt: Record<string, number>
+): Map<string, string> {
+  const merged = new Map<string, string>()
+
+  for (const id of new Set([...first.keys(), ...second.keys()])) {
+    const firstJson = first.get(id)
+    const secondJson = second.get(id)
+    const isSecondNewer = secondJson !== undefined && (secondModifiedAt[id] ?? 0) > (firstModifiedAt[id] ?? 0)
+    merged.set(id, (firstJson === undefined || isSecondNewer ? secondJson : firstJson) as string)
+  }
+
+  return merged
+}
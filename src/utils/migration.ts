@@ -0,0 +1,243 @@
+/**
+ * Google Authenticator "Transfer accounts" support
+ * Decodes otpauth-migration://offline?data=... payloads into importable accounts, and
+ * encodes accounts into the same format for transfer to another authenticator
+ */
+
+import { Secret } from 'otpauth'
+import { decodeProtobufMessage, encodeProtobufMessage, type ProtobufField } from './protobuf'
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding'
+import type { ImportCandidate, TOTPAccount } from '../types'
+
+// MigrationPayload field numbers
+const PAYLOAD_OTP_PARAMETERS = 1
+const PAYLOAD_VERSION = 2
+const PAYLOAD_BATCH_SIZE = 3
+const PAYLOAD_BATCH_INDEX = 4
+const PAYLOAD_BATCH_ID = 5
+
+// OtpParameters field numbers
+const OTP_SECRET = 1
+const OTP_NAME = 2
+const OTP_ISSUER = 3
+const OTP_ALGORITHM = 4
+const OTP_DIGITS = 5
+const OTP_TYPE = 6
+const OTP_COUNTER = 7
+
+// Enum values from Google Authenticator's migration.proto (0 means unspecified)
+const ALGORITHMS: Record<number, TOTPAccount['algorithm'] | undefined> = {
+  0: 'SHA1',
+  1: 'SHA1',
+  2: 'SHA256',
+  3: 'SHA512',
+}
+const ALGORITHM_MD5 = 4
+
+const DIGIT_COUNTS: Record<number, number> = {
+  0: 6,
+  1: 6,
+  2: 8,
+}
+
+const OTP_TYPE_HOTP = 1
+const OTP_TYPE_TOTP = 2
+
+// Payload version written by current Google Authenticator releases
+const MIGRATION_PAYLOAD_VERSION = 1
+
+// Accounts per QR code, small enough to scan reliably from a screen
+export const MIGRATION_ACCOUNTS_PER_CODE = 10
+
+export interface MigrationBatch {
+  batchId: number
+  batchIndex: number
+  batchSize: number
+  entries: ImportCandidate[]
+}
+
+/**
+ * Check whether scanned QR data is a Google Authenticator transfer code
+ */
+export function isMigrationUri(data: string): boolean {
+  return data.startsWith('otpauth-migration://')
+}
+
+function getNumber(fields: ProtobufField[], fieldNumber: number, fallback: number = 0): number {
+  const field = fields.find(f => f.fieldNumber === fieldNumber)
+  return typeof field?.value === 'number' ? field.value : fallback
+}
+
+function getBytes(fields: ProtobufField[], fieldNumber: number): Uint8Array | null {
+  const field = fields.find(f => f.fieldNumber === fieldNumber)
+  return field?.value instanceof Uint8Array ? field.value : null
+}
+
+function getString(fields: ProtobufField[], fieldNumber: number): string {
+  const bytes = getBytes(fields, fieldNumber)
+  return bytes ? new TextDecoder().decode(bytes) : ''
+}
+
+/**
+ * Convert one OtpParameters message into an import candidate
+ */
+function parseOtpParameters(bytes: Uint8Array): ImportCandidate {
+  const fields = decodeProtobufMessage(bytes)
+
+  const issuer = getString(fields, OTP_ISSUER).trim()
+  let name = getString(fields, OTP_NAME).trim()
+
+  // Google stores names as "Issuer:account" when the original URI had an issuer prefix
+  const separatorIndex = name.indexOf(':')
+  if (separatorIndex > 0 && (!issuer || name.slice(0, separatorIndex).trim() === issuer)) {
+    name = name.slice(separatorIndex + 1).trim()
+  }
+
+  const candidate: ImportCandidate = {
+    name: name || issuer || 'Unnamed account',
+    issuer: issuer || undefined,
+    account: null
+  }
+
+  const secretBytes = getBytes(fields, OTP_SECRET)
+  if (!secretBytes || secretBytes.length === 0) {
+    candidate.unsupportedReason = 'Missing secret'
+    return candidate
+  }
+
+  const algorithmValue = getNumber(fields, OTP_ALGORITHM)
+  const algorithm = ALGORITHMS[algorithmValue]
+  if (!algorithm) {
+    candidate.unsupportedReason = algorithmValue === ALGORITHM_MD5 ? 'MD5 is not supported' : 'Unknown algorithm'
+    return candidate
+  }
+
+  candidate.account = {
+    type: 'totp',
+    label: candidate.name,
+    issuer: candidate.issuer,
+    secret: new Secret({ buffer: secretBytes.slice().buffer }).base32,
+    algorithm,
+    digits: DIGIT_COUNTS[getNumber(fields, OTP_DIGITS)] ?? 6,
+  }
+
+  if (getNumber(fields, OTP_TYPE) === OTP_TYPE_HOTP) {
+    candidate.account.type = 'hotp'
+    candidate.account.counter = getNumber(fields, OTP_COUNTER)
+  } else {
+    // Transfer payloads don't carry a period, Google Authenticator always uses 30 seconds
+    candidate.account.period = 30
+  }
+
+  return candidate
+}
+
+/**
+ * Decode an otpauth-migration:// URI
+ * @param {string} uri - Scanned QR code contents
+ * @returns {MigrationBatch} The accounts in this QR code and its position within the transfer
+ */
+export function parseMigrationUri(uri: string): MigrationBatch {
+  if (!isMigrationUri(uri)) {
+    throw new Error('Not a Google Authenticator transfer QR code')
+  }
+
+  // Read the raw parameter: URLSearchParams would turn base64 '+' characters into spaces
+  const match = uri.match(/[?&]data=([^&]+)/)
+  if (!match) {
+    throw new Error('Transfer QR code has no data')
+  }
+
+  let payload: Uint8Array
+  try {
+    payload = new Uint8Array(base64ToArrayBuffer(decodeURIComponent(match[1])))
+  } catch {
+    throw new Error('Transfer QR code data is not valid base64')
+  }
+
+  const fields = decodeProtobufMessage(payload)
+  const entries = fields
+    .filter(field => field.fieldNumber === PAYLOAD_OTP_PARAMETERS && field.value instanceof Uint8Array)
+    .map(field => parseOtpParameters(field.value as Uint8Array))
+
+  return {
+    batchId: getNumber(fields, PAYLOAD_BATCH_ID),
+    batchIndex: getNumber(fields, PAYLOAD_BATCH_INDEX),
+    batchSize: Math.max(1, getNumber(fields, PAYLOAD_BATCH_SIZE, 1)),
+    entries
+  }
+}
+
+/**
+ * Explain why an account can't be written to a transfer QR code
+ * @returns {string | null} Reason, or null if the account can be transferred
+ */
+export function getMigrationUnsupportedReason(account: TOTPAccount): string | null {
+  if (account.provider && account.provider !== 'rfc') {
+    return 'Non-standard codes are not supported by Google Authenticator'
+  }
+  if (account.digits !== undefined && account.digits !== 6 && account.digits !== 8) {
+    return `${account.digits}-digit codes are not supported by Google Authenticator`
+  }
+  if (account.type !== 'hotp' && (account.period || 30) !== 30) {
+    return 'Only 30-second codes are supported by Google Authenticator'
+  }
+  return null
+}
+
+/**
+ * Encode one account as an OtpParameters message
+ */
+function encodeOtpParameters(account: TOTPAccount): Uint8Array {
+  const algorithm = Number(Object.keys(ALGORITHMS).find(key => Number(key) > 0 && ALGORITHMS[Number(key)] === (account.algorithm || 'SHA1')))
+  const digits = (account.digits || 6) === 8 ? 2 : 1
+  const isHotp = account.type === 'hotp'
+
+  const fields: ProtobufField[] = [
+    { fieldNumber: OTP_SECRET, value: Secret.fromBase32(account.secret).bytes },
+    { fieldNumber: OTP_NAME, value: new TextEncoder().encode(account.label) },
+    { fieldNumber: OTP_ISSUER, value: new TextEncoder().encode(account.issuer || '') },
+    { fieldNumber: OTP_ALGORITHM, value: algorithm },
+    { fieldNumber: OTP_DIGITS, value: digits },
+    { fieldNumber: OTP_TYPE, value: isHotp ? OTP_TYPE_HOTP : OTP_TYPE_TOTP },
+  ]
+
+  if (isHotp) {
+    fields.push({ fieldNumber: OTP_COUNTER, value: account.counter || 0 })
+  }
+
+  return encodeProtobufMessage(fields)
+}
+
+/**
+ * Encode accounts as a series of otpauth-migration:// URIs, one per QR code
+ * @param {TOTPAccount[]} accounts - Accounts to transfer (see getMigrationUnsupportedReason)
+ * @param {number} accountsPerCode - Maximum number of accounts in each QR code
+ * @returns {string[]} URIs in scanning order
+ */
+export function createMigrationUris(accounts: TOTPAccount[], accountsPerCode: number = MIGRATION_ACCOUNTS_PER_CODE): string[] {
+  const unsupported = accounts.find(account => getMigrationUnsupportedReason(account))
+  if (unsupported) {
+    throw new Error(`"${unsupported.label}" can't be transferred: ${getMigrationUnsupportedReason(unsupported)}`)
+  }
+
+  const batchSize = Math.ceil(accounts.length / accountsPerCode)
+  // Identifies QR codes that belong to the same transfer
+  const batchId = crypto.getRandomValues(new Uint32Array(1))[0] & 0x7fffffff
+
+  const uris: string[] = []
+  for (let batchIndex = 0; batchIndex < batchSize; batchIndex++) {
+    const batch = accounts.slice(batchIndex * accountsPerCode, (batchIndex + 1) * accountsPerCode)
+    const payload = encodeProtobufMessage([
+      ...batch.map(account => ({ fieldNumber: PAYLOAD_OTP_PARAMETERS, value: encodeOtpParameters(account) })),
+      { fieldNumber: PAYLOAD_VERSION, value: MIGRATION_PAYLOAD_VERSION },
+      { fieldNumber: PAYLOAD_BATCH_SIZE, value: batchSize },
+      { fieldNumber: PAYLOAD_BATCH_INDEX, value: batchIndex },
+      { fieldNumber: PAYLOAD_BATCH_ID, value: batchId },
+    ])
+
+    uris.push(`otpauth-migration://offline?data=${encodeURIComponent(arrayBufferToBase64(payload.slice().buffer))}`)
+  }
+
+  return uris
+}
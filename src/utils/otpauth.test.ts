@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { parseOtpauthUri, buildOtpauthUri, normalizeSecret } from './otpauth'
+import type { NewTOTPAccount, TOTPAccount } from '../types'
+
+const SECRET = 'JBSWY3DPEHPK3PXP'
+
+describe('parseOtpauthUri', () => {
+  it('parses a TOTP URI with defaults for missing settings', () => {
+    expect(parseOtpauthUri(`otpauth://totp/Example:alice@google.com?secret=${SECRET}&issuer=Example`)).toEqual({
+      type: 'totp',
+      label: 'alice@google.com',
+      issuer: 'Example',
+      secret: SECRET,
+      digits: 6,
+      algorithm: 'SHA1',
+      period: 30
+    })
+  })
+
+  it('parses a TOTP URI with every setting given', () => {
+    const account = parseOtpauthUri(`otpauth://totp/ACME:john?secret=${SECRET}&issuer=ACME&algorithm=SHA256&digits=8&period=60`)
+    expect(account).toMatchObject({ algorithm: 'SHA256', digits: 8, period: 60 })
+  })
+
+  it('parses a HOTP URI with its counter', () => {
+    expect(parseOtpauthUri(`otpauth://hotp/Bank:bob?secret=${SECRET}&issuer=Bank&counter=42`)).toEqual({
+      type: 'hotp',
+      label: 'bob',
+      issuer: 'Bank',
+      secret: SECRET,
+      digits: 6,
+      algorithm: 'SHA1',
+      counter: 42
+    })
+  })
+
+  it('parses Steam Guard URIs with fixed settings', () => {
+    const expected = { type: 'totp', provider: 'steam', label: 'gamer', secret: SECRET, digits: 5, period: 30 }
+    expect(parseOtpauthUri(`otpauth://totp/Steam:gamer?secret=${SECRET}&issuer=Steam&digits=6`)).toMatchObject(expected)
+    expect(parseOtpauthUri(`otpauth://steam/Steam:gamer?secret=${SECRET}`)).toMatchObject(expected)
+  })
+
+  it('decodes percent-encoded labels', () => {
+    const account = parseOtpauthUri(`otpauth://totp/ACME%20Co:john.doe%40email.com?secret=${SECRET}`)
+    expect(account.issuer).toBe('ACME Co')
+    expect(account.label).toBe('john.doe@email.com')
+  })
+
+  it('rejects labels with broken percent-encoding', () => {
+    expect(() => parseOtpauthUri(`otpauth://totp/ACME:%E0%A4%A?secret=${SECRET}`)).toThrow('Account name is not correctly percent-encoded')
+  })
+
+  it('prefers the issuer parameter over the label prefix', () => {
+    const account = parseOtpauthUri(`otpauth://totp/Old%20Name:alice?secret=${SECRET}&issuer=New%20Name`)
+    expect(account.issuer).toBe('New Name')
+    expect(account.label).toBe('alice')
+  })
+
+  it('takes the issuer from the label when there is no parameter', () => {
+    expect(parseOtpauthUri(`otpauth://totp/GitHub:octocat?secret=${SECRET}`).issuer).toBe('GitHub')
+  })
+
+  it('normalises lower-case, spaced and padded secrets', () => {
+    expect(parseOtpauthUri('otpauth://totp/alice?secret=jbsw%20y3dp%20ehpk%203pxp%3D%3D').secret).toBe(SECRET)
+  })
+
+  it('rejects a HOTP URI without a counter', () => {
+    expect(() => parseOtpauthUri(`otpauth://hotp/Bank:bob?secret=${SECRET}`)).toThrow('Counter-based URIs need a counter')
+  })
+
+  it('rejects secrets that are not base32', () => {
+    expect(() => parseOtpauthUri('otpauth://totp/alice?secret=JBSWY3DP1HPK3PXP')).toThrow('Secret contains "1", which is not a base32 character')
+    expect(() => parseOtpauthUri('otpauth://totp/alice?secret=ABC')).toThrow('Secret has an invalid length for base32')
+    expect(() => parseOtpauthUri('otpauth://totp/alice')).toThrow('No secret found in URI')
+  })
+
+  it('rejects unsupported algorithms', () => {
+    expect(() => parseOtpauthUri(`otpauth://totp/alice?secret=${SECRET}&algorithm=MD5`)).toThrow('Unsupported algorithm "MD5"')
+  })
+
+  it('rejects unsupported digits and periods', () => {
+    expect(() => parseOtpauthUri(`otpauth://totp/alice?secret=${SECRET}&digits=10`)).toThrow('Digits must be between 6 and 8')
+    expect(() => parseOtpauthUri(`otpauth://totp/alice?secret=${SECRET}&digits=six`)).toThrow('Invalid digits "six"')
+    expect(() => parseOtpauthUri(`otpauth://totp/alice?secret=${SECRET}&period=0`)).toThrow('Period must be between 1 and 300')
+  })
+
+  it('rejects other schemes, types and missing names', () => {
+    expect(() => parseOtpauthUri('not a uri')).toThrow('Not a valid URI')
+    expect(() => parseOtpauthUri(`https://example.com/?secret=${SECRET}`)).toThrow('Not an otpauth:// URI')
+    expect(() => parseOtpauthUri(`otpauth://motp/alice?secret=${SECRET}`)).toThrow('Unsupported OTP type "motp"')
+    expect(() => parseOtpauthUri(`otpauth://totp/Issuer:?secret=${SECRET}`)).toThrow('Account name is missing')
+  })
+})
+
+describe('normalizeSecret', () => {
+  it('rejects an empty secret', () => {
+    expect(() => normalizeSecret(' = ')).toThrow('Secret is empty')
+  })
+})
+
+describe('buildOtpauthUri', () => {
+  const createAccount = (account: NewTOTPAccount): TOTPAccount => ({ id: 'account', addedAt: 0, ...account })
+
+  const roundTrip = (account: NewTOTPAccount) => {
+    expect(parseOtpauthUri(buildOtpauthUri(createAccount(account)))).toEqual(account)
+  }
+
+  it('round-trips a TOTP account with special characters in its names', () => {
+    roundTrip({ type: 'totp', label: 'jane+work@example.com', issuer: 'Ünïcode & Co: Ltd', secret: SECRET, digits: 8, algorithm: 'SHA512', period: 45 })
+  })
+
+  it('round-trips a HOTP account', () => {
+    roundTrip({ type: 'hotp', label: 'bob', issuer: 'Bank', secret: SECRET, digits: 6, algorithm: 'SHA1', counter: 7 })
+  })
+
+  it('round-trips a Steam Guard account', () => {
+    roundTrip({ type: 'totp', provider: 'steam', label: 'gamer', issuer: 'Steam', secret: SECRET, digits: 5, period: 30 })
+  })
+
+  it('refuses accounts that have no otpauth form', () => {
+    expect(() => buildOtpauthUri(createAccount({ provider: 'yandex', label: 'alice', secret: SECRET, pin: '1234' }))).toThrow('PIN-based codes have no otpauth URI format')
+  })
+})
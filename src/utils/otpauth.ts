@@ -0,0 +1,244 @@
+/**
+ * otpauth:// URI parsing, validation and serialisation shared by the scanner, the manual form and the import paths
+ */
+
+import type { NewTOTPAccount, OTPType, TOTPAccount } from '../types'
+
+const SUPPORTED_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'] as const
+
+export const MIN_DIGITS = 6
+export const MAX_DIGITS = 8
+export const MIN_PERIOD = 1
+export const MAX_PERIOD = 300
+
+// Base32 text can't end after 1, 3 or 6 characters of a final 8-character block
+const INVALID_BASE32_REMAINDERS = [1, 3, 6]
+
+/**
+ * Check and normalise a base32 secret as typed, pasted or scanned
+ * Whitespace and padding are dropped and letters upper-cased
+ * @param {string} secret - Secret in base32
+ * @returns {string} Normalised secret
+ */
+export function normalizeSecret(secret: string): string {
+  const normalized = secret.replace(/\s/g, '').toUpperCase().replace(/=+$/, '')
+
+  if (!normalized) {
+    throw new Error('Secret is empty')
+  }
+
+  const invalid = normalized.match(/[^A-Z2-7]/)
+  if (invalid) {
+    throw new Error(`Secret contains "${invalid[0]}", which is not a base32 character`)
+  }
+
+  if (INVALID_BASE32_REMAINDERS.includes(normalized.length % 8)) {
+    throw new Error('Secret has an invalid length for base32')
+  }
+
+  return normalized
+}
+
+/**
+ * Check a hash algorithm name, accepting "sha256" and "SHA-256" spellings
+ */
+export function parseAlgorithm(value: string): NonNullable<TOTPAccount['algorithm']> {
+  const algorithm = value.toUpperCase().replace('-', '')
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm as typeof SUPPORTED_ALGORITHMS[number])) {
+    throw new Error(`Unsupported algorithm "${value}"`)
+  }
+  return algorithm as NonNullable<TOTPAccount['algorithm']>
+}
+
+/**
+ * Check an integer setting against its allowed range
+ * @param {string} name - Setting name for error messages
+ * @param {string | number} value - Value from a URI or form
+ * @param {number} min - Smallest allowed value
+ * @param {number} max - Largest allowed value, if limited
+ */
+export function parseIntegerSetting(name: string, value: string | number, min: number, max?: number): number {
+  const text = String(value).trim()
+  if (!/^\d+$/.test(text) || !Number.isSafeInteger(Number(text))) {
+    throw new Error(`Invalid ${name} "${text}"`)
+  }
+
+  const number = Number(text)
+  if (number < min || (max !== undefined && number > max)) {
+    const setting = name.charAt(0).toUpperCase() + name.slice(1)
+    throw new Error(max === undefined
+      ? `${setting} must be at least ${min}`
+      : `${setting} must be between ${min} and ${max}`)
+  }
+  return number
+}
+
+function decodeLabel(path: string): string {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    throw new Error('Account name is not correctly percent-encoded')
+  }
+}
+
+/**
+ * Check whether an otpauth URI describes a Steam Guard account
+ * Steam secrets are exported either with a "steam" host or with issuer=Steam
+ */
+function isSteamUri(type: string, params: URLSearchParams, issuer: string): boolean {
+  return type === 'steam' ||
+         issuer.toLowerCase() === 'steam' ||
+         params.get('encoder')?.toLowerCase() === 'steam'
+}
+
+/**
+ * Parse a steam://SECRET value (as exported by Bitwarden) into account data
+ * @param {string} uri - steam:// URI
+ * @param {string} label - Account name to use, since the URI carries none
+ * @returns {NewTOTPAccount} Account data
+ */
+export function parseSteamUri(uri: string, label: string): NewTOTPAccount {
+  const secret = uri.replace(/^steam:\/\//, '').trim()
+  if (!secret) {
+    throw new Error('No secret found in Steam URI')
+  }
+
+  return {
+    type: 'totp',
+    provider: 'steam',
+    label,
+    issuer: 'Steam',
+    secret: normalizeSecret(secret),
+    digits: 5,
+    period: 30
+  }
+}
+
+/**
+ * Parse and validate an otpauth://totp/... or otpauth://hotp/... URI into account data
+ * Throws an error describing the first problem found
+ * @param {string} uri - URI from a QR code, a paste or an export file
+ * @returns {NewTOTPAccount} Account data
+ */
+export function parseOtpauthUri(uri: string): NewTOTPAccount {
+  let url: URL
+  try {
+    url = new URL(uri.trim())
+  } catch {
+    throw new Error('Not a valid URI')
+  }
+
+  if (url.protocol !== 'otpauth:') {
+    throw new Error('Not an otpauth:// URI')
+  }
+
+  // Hosts of non-standard schemes keep their case
+  const host = url.hostname.toLowerCase()
+  if (!['totp', 'hotp', 'steam'].includes(host)) {
+    throw new Error(`Unsupported OTP type "${url.hostname}"`)
+  }
+
+  const type: OTPType = host === 'hotp' ? 'hotp' : 'totp'
+  const params = url.searchParams
+
+  const secret = params.get('secret')
+  if (!secret) {
+    throw new Error('No secret found in URI')
+  }
+
+  // The path is "Issuer:Account" or just "Account"; the issuer parameter wins if both are set.
+  // An issuer that itself contains a colon is matched as a whole
+  const path = decodeLabel(url.pathname.replace(/^\//, ''))
+  const issuerParam = params.get('issuer')
+  const separator = issuerParam !== null && path.startsWith(`${issuerParam}:`) ? issuerParam.length : path.indexOf(':')
+  const label = (separator === -1 ? path : path.slice(separator + 1)).trim()
+  const issuer = (issuerParam ?? (separator === -1 ? '' : path.slice(0, separator))).trim()
+
+  if (!label) {
+    throw new Error('Account name is missing')
+  }
+
+  // Steam Guard codes have fixed settings, whatever the URI says
+  if (type === 'totp' && isSteamUri(host, params, issuer)) {
+    return {
+      type,
+      provider: 'steam',
+      label,
+      issuer,
+      secret: normalizeSecret(secret),
+      digits: 5,
+      period: 30
+    }
+  }
+
+  const account: NewTOTPAccount = {
+    type,
+    label,
+    issuer,
+    secret: normalizeSecret(secret),
+    digits: parseIntegerSetting('digits', params.get('digits') ?? '6', MIN_DIGITS, MAX_DIGITS),
+    algorithm: parseAlgorithm(params.get('algorithm') ?? 'SHA1')
+  }
+
+  if (type === 'hotp') {
+    const counter = params.get('counter')
+    if (counter === null) {
+      throw new Error('Counter-based URIs need a counter')
+    }
+    account.counter = parseIntegerSetting('counter', counter, 0)
+  } else {
+    account.period = parseIntegerSetting('period', params.get('period') ?? '30', MIN_PERIOD, MAX_PERIOD)
+  }
+
+  return account
+}
+
+/**
+ * Explain why an account can't be expressed as an otpauth URI
+ * @returns {string | null} Reason, or null if the account can be exported
+ */
+export function getOtpauthUnsupportedReason(account: TOTPAccount): string | null {
+  if (account.provider === 'yandex' || account.provider === 'motp') {
+    return 'PIN-based codes have no otpauth URI format'
+  }
+  return null
+}
+
+/**
+ * Build the otpauth:// URI for an account, as used in QR codes
+ * @param {TOTPAccount} account - Account to export (see getOtpauthUnsupportedReason)
+ * @returns {string} otpauth URI
+ */
+export function buildOtpauthUri(account: TOTPAccount): string {
+  const reason = getOtpauthUnsupportedReason(account)
+  if (reason) {
+    throw new Error(reason)
+  }
+
+  const type: OTPType = account.type === 'hotp' ? 'hotp' : 'totp'
+  const issuer = account.provider === 'steam' ? account.issuer || 'Steam' : account.issuer
+  const label = issuer
+    ? `${encodeURIComponent(issuer)}:${encodeURIComponent(account.label)}`
+    : encodeURIComponent(account.label)
+
+  const params: [string, string][] = [['secret', account.secret]]
+  if (issuer) {
+    params.push(['issuer', issuer])
+  }
+  params.push(['algorithm', account.algorithm || 'SHA1'])
+  params.push(['digits', String(account.digits || 6)])
+
+  if (type === 'hotp') {
+    params.push(['counter', String(account.counter || 0)])
+  } else {
+    params.push(['period', String(account.period || 30)])
+  }
+
+  if (account.provider === 'steam') {
+    params.push(['encoder', 'steam'])
+  }
+
+  // Percent-encode rather than URLSearchParams' '+' for spaces, which some authenticators keep literally
+  const query = params.map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('&')
+  return `otpauth://${type}/${label}?${query}`
+}
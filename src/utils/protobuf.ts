@@ -0,0 +1,119 @@
+/**
+ * Minimal Protocol Buffers wire-format reader and writer
+ * Only supports the wire types needed for authenticator transfer payloads (varint and length-delimited)
+ */
+
+const WIRE_TYPE_VARINT = 0
+const WIRE_TYPE_FIXED64 = 1
+const WIRE_TYPE_LENGTH_DELIMITED = 2
+const WIRE_TYPE_FIXED32 = 5
+
+export interface ProtobufField {
+  fieldNumber: number
+  // Varint fields are decoded to numbers, length-delimited fields are returned as raw bytes
+  value: number | Uint8Array
+}
+
+/**
+ * Read a base-128 varint starting at the given offset
+ * Uses arithmetic instead of bitwise operators so values above 32 bits survive
+ */
+function readVarint(bytes: Uint8Array, offset: number): { value: number, offset: number } {
+  let value = 0
+  let multiplier = 1
+
+  while (offset < bytes.length) {
+    const byte = bytes[offset++]
+    value += (byte & 0x7f) * multiplier
+    if ((byte & 0x80) === 0) {
+      return { value, offset }
+    }
+    multiplier *= 128
+  }
+
+  throw new Error('Truncated protobuf varint')
+}
+
+/**
+ * Decode all top-level fields of a protobuf message
+ * @param {Uint8Array} bytes - Encoded message
+ * @returns {ProtobufField[]} Fields in wire order (repeated fields appear multiple times)
+ */
+export function decodeProtobufMessage(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = []
+  let offset = 0
+
+  while (offset < bytes.length) {
+    const tag = readVarint(bytes, offset)
+    offset = tag.offset
+
+    const fieldNumber = Math.floor(tag.value / 8)
+    const wireType = tag.value % 8
+
+    switch (wireType) {
+      case WIRE_TYPE_VARINT: {
+        const varint = readVarint(bytes, offset)
+        offset = varint.offset
+        fields.push({ fieldNumber, value: varint.value })
+        break
+      }
+      case WIRE_TYPE_LENGTH_DELIMITED: {
+        const length = readVarint(bytes, offset)
+        offset = length.offset
+        if (offset + length.value > bytes.length) {
+          throw new Error('Truncated protobuf field')
+        }
+        fields.push({ fieldNumber, value: bytes.slice(offset, offset + length.value) })
+        offset += length.value
+        break
+      }
+      case WIRE_TYPE_FIXED64:
+        offset += 8
+        break
+      case WIRE_TYPE_FIXED32:
+        offset += 4
+        break
+      default:
+        throw new Error(`Unsupported protobuf wire type: ${wireType}`)
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Append a base-128 varint to a byte list
+ */
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = value
+  while (remaining >= 128) {
+    bytes.push((remaining % 128) | 0x80)
+    remaining = Math.floor(remaining / 128)
+  }
+  bytes.push(remaining)
+}
+
+/**
+ * Encode fields into a protobuf message
+ * @param {ProtobufField[]} fields - Fields in the order they should be written
+ * @returns {Uint8Array} Encoded message
+ */
+export function encodeProtobufMessage(fields: ProtobufField[]): Uint8Array {
+  const bytes: number[] = []
+
+  for (const { fieldNumber, value } of fields) {
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Unsupported protobuf varint value: ${value}`)
+      }
+      writeVarint(bytes, fieldNumber * 8 + WIRE_TYPE_VARINT)
+      writeVarint(bytes, value)
+    } else {
+      writeVarint(bytes, fieldNumber * 8 + WIRE_TYPE_LENGTH_DELIMITED)
+      writeVarint(bytes, value.length)
+      bytes.push(...value)
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
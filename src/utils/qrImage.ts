@@ -0,0 +1,118 @@
+/**
+ * QR codes in still images (picked files, dropped images and pasted screenshots)
+ * The scanner library only reports one code per scan, so the image is also scanned in
+ * overlapping tiles to find every code in screenshots that show several
+ */
+
+import QrScanner from 'qr-scanner'
+
+// Tile grids tried after the whole image, e.g. 2 = four quarters
+const TILE_GRIDS = [2, 3]
+
+// Tiles overlap by this share of their size so codes on a tile boundary are still found whole
+const TILE_OVERLAP = 0.25
+
+type QrEngine = Awaited<ReturnType<typeof QrScanner.createQrEngine>>
+
+/**
+ * Get the image from a paste or drop, if it carries one
+ * @param {DataTransfer | null} dataTransfer - clipboardData or dataTransfer of the event
+ * @returns {File | null} First image file
+ */
+export function getImageFromDataTransfer(dataTransfer: DataTransfer | null): File | null {
+  if (!dataTransfer) return null
+
+  for (const item of Array.from(dataTransfer.items || [])) {
+    if (item.kind === 'file' && item.type.startsWith('image/')) {
+      return item.getAsFile()
+    }
+  }
+
+  return Array.from(dataTransfer.files || []).find(file => file.type.startsWith('image/')) || null
+}
+
+function getTileRegions(width: number, height: number): QrScanner.ScanRegion[] {
+  const regions: QrScanner.ScanRegion[] = []
+
+  for (const grid of TILE_GRIDS) {
+    const tileWidth = Math.round(width / grid * (1 + TILE_OVERLAP))
+    const tileHeight = Math.round(height / grid * (1 + TILE_OVERLAP))
+
+    for (let row = 0; row < grid; row++) {
+      for (let column = 0; column < grid; column++) {
+        const x = Math.min(Math.round(column * width / grid), width - tileWidth)
+        const y = Math.min(Math.round(row * height / grid), height - tileHeight)
+        regions.push({
+          x: Math.max(0, x),
+          y: Math.max(0, y),
+          width: tileWidth,
+          height: tileHeight,
+          downScaledWidth: tileWidth,
+          downScaledHeight: tileHeight
+        })
+      }
+    }
+  }
+
+  return regions
+}
+
+async function scanRegion(
+  image: ImageBitmap,
+  qrEngine: QrEngine,
+  canvas: HTMLCanvasElement,
+  region: QrScanner.ScanRegion | null
+): Promise<string | null> {
+  try {
+    const result = await QrScanner.scanImage(image, {
+      scanRegion: region,
+      qrEngine,
+      canvas,
+      returnDetailedScanResult: true
+    })
+    return result.data || null
+  } catch {
+    // No code in this region
+    return null
+  }
+}
+
+/**
+ * Find every QR code in an image
+ * @param {Blob} file - Image file, dropped image or pasted screenshot
+ * @returns {Promise<string[]>} Decoded contents, without duplicates
+ */
+export async function scanQrCodesInImage(file: Blob): Promise<string[]> {
+  let image: ImageBitmap
+  try {
+    image = await createImageBitmap(file)
+  } catch {
+    throw new Error('This file is not a supported image')
+  }
+
+  // Share one decoder and canvas between all scans of this image
+  const qrEngine = await QrScanner.createQrEngine()
+  const canvas = document.createElement('canvas')
+  const codes = new Set<string>()
+
+  try {
+    const whole = await scanRegion(image, qrEngine, canvas, null)
+    if (whole) {
+      codes.add(whole)
+    }
+
+    for (const region of getTileRegions(image.width, image.height)) {
+      const code = await scanRegion(image, qrEngine, canvas, region)
+      if (code) {
+        codes.add(code)
+      }
+    }
+  } finally {
+    image.close()
+    if (qrEngine instanceof Worker) {
+      qrEngine.terminate()
+    }
+  }
+
+  return [...codes]
+}
@@ -0,0 +1,68 @@
+/**
+ * Paper recovery sheet helpers
+ */
+
+import { buildOtpauthUri, getOtpauthUnsupportedReason } from './otpauth'
+import { getCodeGenerator, getCodePeriod } from './generators'
+import type { TOTPAccount } from '../types'
+
+export interface RecoverySheetEntry {
+  account: TOTPAccount
+  // Code settings as printed, e.g. "SHA1 · 6 digits · 30 s"
+  parameters: string
+  // Null for accounts that can't be expressed as an otpauth URI
+  uri: string | null
+}
+
+/**
+ * Describe an account's code settings for the sheet
+ */
+function describeParameters(account: TOTPAccount): string {
+  const generator = getCodeGenerator(account)
+  const parts: string[] = []
+
+  if (account.provider && account.provider !== 'rfc') {
+    parts.push(generator.name)
+  } else {
+    parts.push(account.algorithm || 'SHA1')
+  }
+  parts.push(`${generator.digits || account.digits || 6} digits`)
+  parts.push(account.type === 'hotp' ? `counter ${account.counter || 0}` : `${getCodePeriod(account)} s`)
+
+  return parts.join(' · ')
+}
+
+/**
+ * Build the printable entries for a set of accounts
+ */
+export function createRecoverySheetEntries(accounts: TOTPAccount[]): RecoverySheetEntry[] {
+  return accounts.map(account => ({
+    account,
+    parameters: describeParameters(account),
+    uri: getOtpauthUnsupportedReason(account) ? null : buildOtpauthUri(account)
+  }))
+}
+
+/**
+ * Short code identifying the accounts on a sheet
+ * Computed over the printed account details, so a sheet can be checked against the app by
+ * generating a new one and comparing codes. HOTP counters are left out because they
+ * advance with every use without making an older sheet invalid
+ * @returns {Promise<string>} Code formatted as XXXX-XXXX-XXXX
+ */
+export async function getRecoverySheetVerificationCode(entries: RecoverySheetEntry[]): Promise<string> {
+  const canonical = JSON.stringify(entries.map(({ account }) => [
+    account.issuer || '',
+    account.label,
+    account.secret.toUpperCase().replace(/[\s=]/g, ''),
+    account.type || 'totp',
+    account.provider || 'rfc',
+    account.algorithm || 'SHA1',
+    getCodeGenerator(account).digits || account.digits || 6,
+    account.type === 'hotp' ? null : getCodePeriod(account)
+  ]))
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)))
+  const hex = Array.from(digest.slice(0, 6), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()
+  return hex.match(/.{4}/g)!.join('-')
+}
@@ -0,0 +1,50 @@
+/**
+ * Recycle bin for deleted accounts
+ * Deleted accounts stay encrypted in the vault for a while, so a deletion can be undone
+ */
+
+import { createAccountId } from './accounts'
+import type { TOTPAccount, RecycledAccount } from '../types'
+
+// Days a deleted account can still be restored
+export const RECYCLE_BIN_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Mark an account as deleted
+ * @param {TOTPAccount} account - Account being deleted
+ * @param {number} now - Deletion time
+ */
+export function recycleAccount(account: TOTPAccount, now: number = Date.now()): RecycledAccount {
+  return { ...account, deletedAt: now }
+}
+
+/**
+ * Turn a deleted account back into a regular one, with its id and list position
+ * @param {RecycledAccount} recycled - Entry from the recycle bin
+ * @param {TOTPAccount[]} accounts - Current accounts, whose ids must stay unique
+ */
+export function restoreRecycledAccount(recycled: RecycledAccount, accounts: TOTPAccount[]): TOTPAccount {
+  const { deletedAt: _deletedAt, ...account } = recycled
+  if (accounts.some(existing => existing.id === account.id)) {
+    account.id = createAccountId()
+  }
+  return account
+}
+
+/**
+ * Time at which a deleted account is removed for good
+ */
+export function getRecycledExpiry(recycled: RecycledAccount): number {
+  return recycled.deletedAt + RECYCLE_BIN_RETENTION_DAYS * DAY_MS
+}
+
+/**
+ * Drop deleted accounts past the retention period
+ * @returns {RecycledAccount[]} Entries that can still be restored, or the same array if none expired
+ */
+export function removeExpiredAccounts(recycled: RecycledAccount[], now: number = Date.now()): RecycledAccount[] {
+  const kept = recycled.filter(entry => getRecycledExpiry(entry) > now)
+  return kept.length === recycled.length ? recycled : kept
+}
@@ -0,0 +1,101 @@
+/**
+ * AWS Signature Version 4 for S3-compatible object storage
+ * Only what single-object requests need: no chunked uploads and no presigned URLs
+ */
+
+export interface S3Credentials {
+  accessKeyId: string
+  secretAccessKey: string
+  region: string
+}
+
+// Hash of an empty body, sent with requests that have none
+const EMPTY_BODY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)))
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data))
+}
+
+// RFC 3986 encoding, which S3 expects in canonical requests
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function getCanonicalUri(url: URL): string {
+  return url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/')
+}
+
+function getCanonicalQuery(url: URL): string {
+  return [...url.searchParams]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&')
+}
+
+/**
+ * Sign a request to an S3-compatible endpoint
+ * @param {string} method - HTTP method
+ * @param {string} url - Object URL (path-style or virtual-hosted)
+ * @param {Record<string, string>} headers - Headers to send and sign (the host is added)
+ * @param {string} body - Request body, empty for GET and HEAD
+ * @param {S3Credentials} credentials - Access key and region
+ * @param {Date} date - Signing time
+ * @returns {Promise<Record<string, string>>} Headers including the signature, without the host
+ */
+export async function signS3Request(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  credentials: S3Credentials,
+  date: Date = new Date()
+): Promise<Record<string, string>> {
+  const parsedUrl = new URL(url)
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const day = amzDate.slice(0, 8)
+  const scope = `${day}/${credentials.region}/s3/aws4_request`
+  const payloadHash = body ? await sha256Hex(body) : EMPTY_BODY_SHA256
+
+  const signedHeaders: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: parsedUrl.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate
+  }
+  const headerNames = Object.keys(signedHeaders).sort()
+
+  const canonicalRequest = [
+    method,
+    getCanonicalUri(parsedUrl),
+    getCanonicalQuery(parsedUrl),
+    ...headerNames.map(name => `${name}:${signedHeaders[name]}`),
+    '',
+    headerNames.join(';'),
+    payloadHash
+  ].join('\n')
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n')
+
+  const dateKey = await hmac(new TextEncoder().encode(`AWS4${credentials.secretAccessKey}`), day)
+  const regionKey = await hmac(dateKey, credentials.region)
+  const serviceKey = await hmac(regionKey, 's3')
+  const signingKey = await hmac(serviceKey, 'aws4_request')
+  const signature = toHex(await hmac(signingKey, stringToSign))
+
+  // Browsers set the host header themselves
+  const { host: _host, ...requestHeaders } = signedHeaders
+  return {
+    ...requestHeaders,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+  }
+}
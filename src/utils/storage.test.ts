@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { migrateFromLocalStorage, ENCRYPTED_PREFIX, type StorageAdapter } from './storage'
+import { mergeRecordCopies } from './merge'
+
+function createMemoryAdapter(backend: StorageAdapter['backend'], initial: [string, string][] = []): StorageAdapter & { values: Map<string, string> } {
+  const values = new Map(initial)
+  return {
+    backend,
+    values,
+    get: async (key) => values.get(key) ?? null,
+    entries: async (prefix = '') => [...values].filter(([key]) => key.startsWith(prefix)),
+    write: async ({ set = [], remove = [] }) => {
+      set.forEach(([key, value]) => values.set(key, value))
+      remove.forEach(key => values.delete(key))
+    }
+  }
+}
+
+// Values are moved as they are, so they don't need to be real envelopes here
+const sealed = (value: string): string => `${ENCRYPTED_PREFIX}${value}`
+
+describe('migrateFromLocalStorage', () => {
+  it('keeps what a session on the fallback changed for merging after unlock', async () => {
+    const database = createMemoryAdapter('indexeddb', [
+      ['totp-accounts', sealed('index: a')],
+      ['totp-accounts/a', sealed('a')],
+      ['totp-settings', sealed('settings')]
+    ])
+    // A session that couldn't open the database edited a, added b and left the settings alone
+    const fallback = createMemoryAdapter('localstorage', [
+      ['totp-accounts', sealed('index: a, b')],
+      ['totp-accounts/a', sealed('a, edited')],
+      ['totp-accounts/b', sealed('b')],
+      ['totp-settings', sealed('settings')],
+      ['selected-vault', 'default']
+    ])
+
+    await migrateFromLocalStorage(database, fallback)
+
+    expect(database.values).toEqual(new Map([
+      ['totp-accounts', sealed('index: a')],
+      ['totp-accounts/a', sealed('a')],
+      ['totp-accounts/b', sealed('b')],
+      ['totp-settings', sealed('settings')]
+    ]))
+    expect(fallback.values).toEqual(new Map([
+      ['totp-accounts', sealed('index: a, b')],
+      ['totp-accounts/a', sealed('a, edited')],
+      ['selected-vault', 'default']
+    ]))
+  })
+
+  it('moves everything when the database is empty', async () => {
+    const database = createMemoryAdapter('indexeddb')
+    const fallback = createMemoryAdapter('localstorage', [['totp-accounts', sealed('accounts')]])
+
+    await migrateFromLocalStorage(database, fallback)
+
+    expect(database.values).toEqual(new Map([['totp-accounts', sealed('accounts')]]))
+    expect(fallback.values.size).toBe(0)
+  })
+})
+
+describe('mergeRecordCopies', () => {
+  it('keeps every record and the later change of each', () => {
+    const fallback = new Map([['a', 'a, edited'], ['b', 'b'], ['c', 'c']])
+    const database = new Map([['a', 'a'], ['c', 'c, edited later'], ['d', 'd']])
+
+    expect(mergeRecordCopies(fallback, { a: 20, b: 20, c: 10 }, database, { a: 10, c: 30, d: 10 })).toEqual(new Map([
+      ['a', 'a, edited'],
+      ['b', 'b'],
+      ['c', 'c, edited later'],
+      ['d', 'd']
+    ]))
+  })
+
+  it('prefers the first copy when neither change is later', () => {
+    expect(mergeRecordCopies(new Map([['a', 'first']]), {}, new Map([['a', 'second']]), {}))
+      .toEqual(new Map([['a', 'first']]))
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Storage backends for the vault
+ * Adapters store opaque string values (encrypted envelopes) by key. IndexedDB is used
+ * where available; localStorage remains as a fallback for browsers that block it
+ */
+
+import { createIndexedDbAdapter } from './indexedDb'
+
+// Marks stored values that hold an encrypted envelope
+export const ENCRYPTED_PREFIX = 'encrypted:'
+
+export type StorageBackend = 'indexeddb' | 'localstorage'
+
+// Values to write and keys to delete in one operation
+export interface StorageChanges {
+  set?: [string, string][]
+  remove?: string[]
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend
+  get(key: string): Promise<string | null>
+  /**
+   * List stored [key, value] pairs, optionally only those whose key starts with a prefix
+   */
+  entries(prefix?: string): Promise<[string, string][]>
+  /**
+   * Apply changes; atomic where the backend supports transactions
+   */
+  write(changes: StorageChanges): Promise<void>
+}
+
+/**
+ * Create an adapter backed by localStorage
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    backend: 'localstorage',
+
+    async get(key) {
+      return localStorage.getItem(key)
+    },
+
+    async entries(prefix = '') {
+      const entries: [string, string][] = []
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i)
+        const value = key ? localStorage.getItem(key) : null
+        if (key && value !== null && key.startsWith(prefix)) {
+          entries.push([key, value])
+        }
+      }
+      return entries
+    },
+
+    async write({ set = [], remove = [] }) {
+      for (const [key, value] of set) {
+        localStorage.setItem(key, value)
+      }
+      for (const key of remove) {
+        localStorage.removeItem(key)
+      }
+    }
+  }
+}
+
+/**
+ * Move encrypted values left in localStorage (by earlier versions or the fallback) into another adapter
+ * Values the adapter lacks are copied and copies it already holds are dropped. A value that differs
+ * was written by a session on the fallback after the adapter's copy, so it stays in localStorage
+ * until the vault is unlocked and the two can be merged (see useSecureStorage). localStorage is
+ * only cleared once the copy has been written
+ * @param {StorageAdapter} adapter - Adapter to move the values to
+ * @param {StorageAdapter} fallback - Adapter holding the values, localStorage unless testing
+ */
+export async function migrateFromLocalStorage(adapter: StorageAdapter, fallback: StorageAdapter = createLocalStorageAdapter()): Promise<void> {
+  const encrypted = (await fallback.entries()).filter(([, value]) => value.startsWith(ENCRYPTED_PREFIX))
+  if (encrypted.length === 0) return
+
+  const existing = new Map(await adapter.entries())
+  const missing = encrypted.filter(([key]) => !existing.has(key))
+  const moved = encrypted.filter(([key, value]) => (existing.get(key) ?? value) === value)
+
+  // Values are copied as-is: envelopes are bound to their key, not to the backend
+  if (missing.length > 0) {
+    await adapter.write({ set: missing })
+  }
+  if (moved.length > 0) {
+    await fallback.write({ remove: moved.map(([key]) => key) })
+  }
+}
+
+/**
+ * Ask the browser not to evict the vault under storage pressure
+ * @returns {Promise<boolean>} Whether storage is persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false
+
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist())
+  } catch (error) {
+    console.warn('Persistent storage request failed:', error)
+    return false
+  }
+}
+
+let adapterPromise: Promise<StorageAdapter> | null = null
+
+/**
+ * Get the storage adapter for the vault, opening (and migrating to) IndexedDB on first use
+ */
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      try {
+        const adapter = await createIndexedDbAdapter()
+        await migrateFromLocalStorage(adapter)
+        requestPersistentStorage()
+        return adapter
+      } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage:', error)
+        return createLocalStorageAdapter()
+      }
+    })()
+  }
+  return adapterPromise
+}
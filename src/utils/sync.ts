@@ -0,0 +1,306 @@
+/**
+ * Vault sync through a WebDAV share or S3-compatible bucket
+ * The server only ever sees one opaque file, sealed like the local vault under a key derived
+ * from a sync passphrase, so every device that knows the passphrase can join. Writes are
+ * conditional on the file's ETag; when another device got there first, the accounts are
+ * merged one by one and the upload retried
+ */
+
+import { sealEnvelope, openEnvelope, isAcceptedKdfIterations } from './crypto'
+import { createPassphraseKeyMaterial, derivePassphraseSlotKeyMaterial, type PassphraseKdfParams } from './keyring'
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding'
+import { signS3Request } from './sigv4'
+import { findDuplicateAccount, sanitizeStoredAccount, isRecord } from './accounts'
+import { mergeRecords, hasSameRecords } from './merge'
+import type { TOTPAccount } from '../types'
+
+export const SYNC_FORMAT = 'my-totp-sync'
+export const SYNC_VERSION = 1
+
+// Uploads retried after another device changed the file in between
+const MAX_SYNC_ATTEMPTS = 3
+
+export type SyncProvider = 'webdav' | 's3'
+
+// URL of the sync file itself, e.g. https://dav.example.com/files/me/my-totp.json
+export type SyncTarget =
+  | { provider: 'webdav', url: string, username: string, password: string }
+  | { provider: 's3', url: string, region: string, accessKeyId: string, secretAccessKey: string }
+
+// Stored inside the encrypted vault, like the accounts
+export interface SyncSettings {
+  target: SyncTarget
+  // Parameters the sync key was derived with, also stored in the sync file
+  kdf: PassphraseKdfParams
+  // Derived sync key (base64), so the passphrase is only needed when connecting
+  keyMaterial: string
+}
+
+export interface SyncState {
+  lastSyncedAt: number | null
+  // Account records (JSON by id) as last synced, the common base for merging
+  base: Record<string, string>
+  // When accounts first changed here since the last sync; cleared once uploaded
+  pendingSince: number | null
+}
+
+interface SyncFile {
+  format: typeof SYNC_FORMAT
+  version: number
+  kdf: PassphraseKdfParams
+  data: string
+}
+
+interface SyncPayload {
+  accounts: TOTPAccount[]
+  // When each account was last changed, to settle an account changed on two devices
+  modifiedAt: Record<string, number>
+}
+
+interface RemoteFile {
+  contents: string
+  etag: string
+}
+
+export interface SyncResult {
+  accounts: TOTPAccount[]
+  state: SyncState
+}
+
+export const INITIAL_SYNC_STATE: SyncState = {
+  lastSyncedAt: null,
+  base: {},
+  pendingSince: null
+}
+
+/**
+ * Account records by id, in list order, as compared when merging
+ */
+export function getAccountRecords(accounts: TOTPAccount[]): Map<string, string> {
+  return new Map(accounts.map(account => [account.id, JSON.stringify(account)]))
+}
+
+function encodeBasicAuth(username: string, password: string): string {
+  return arrayBufferToBase64(new TextEncoder().encode(`${username}:${password}`).buffer as ArrayBuffer)
+}
+
+async function sendRequest(target: SyncTarget, method: string, headers: Record<string, string>, body: string = ''): Promise<Response> {
+  let requestHeaders = headers
+  if (target.provider === 's3') {
+    requestHeaders = await signS3Request(method, target.url, headers, body, target)
+  } else if (target.username) {
+    requestHeaders = { ...headers, Authorization: `Basic ${encodeBasicAuth(target.username, target.password)}` }
+  }
+
+  try {
+    return await fetch(target.url, {
+      method,
+      headers: requestHeaders,
+      body: body || undefined,
+      cache: 'no-store',
+      credentials: 'omit'
+    })
+  } catch {
+    throw new Error('Could not reach the sync server')
+  }
+}
+
+function describeFailure(response: Response): Error {
+  if (response.status === 401 || response.status === 403) {
+    return new Error('The sync server rejected the credentials')
+  }
+  if (response.status === 409) {
+    return new Error('The folder for the sync file does not exist on the server')
+  }
+  return new Error(`The sync server responded with ${response.status} ${response.statusText}`.trim())
+}
+
+/**
+ * Download the sync file
+ * @returns {Promise<RemoteFile | null>} Contents and ETag, or null if no device has synced yet
+ */
+async function downloadSyncFile(target: SyncTarget): Promise<RemoteFile | null> {
+  const response = await sendRequest(target, 'GET', {})
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw describeFailure(response)
+  }
+
+  const etag = response.headers.get('ETag')
+  if (!etag) {
+    throw new Error('The sync server did not send an ETag; it has to expose the ETag header to this app')
+  }
+  return { contents: await response.text(), etag }
+}
+
+/**
+ * Upload the sync file, only if it hasn't changed since it was downloaded
+ * @param {string | null} etag - ETag of the downloaded file, or null to create it
+ * @returns {Promise<boolean>} False if another device changed the file in the meantime
+ */
+async function uploadSyncFile(target: SyncTarget, contents: string, etag: string | null): Promise<boolean> {
+  const response = await sendRequest(target, 'PUT', {
+    'Content-Type': 'application/json',
+    ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' })
+  }, contents)
+
+  if (response.status === 412) {
+    return false
+  }
+  if (!response.ok) {
+    throw describeFailure(response)
+  }
+  return true
+}
+
+function parseSyncFile(contents: string): SyncFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(contents)
+  } catch {
+    throw new Error('The sync file is not valid')
+  }
+
+  if (!isRecord(parsed) || parsed.format !== SYNC_FORMAT) {
+    throw new Error('The file at this URL is not a My TOTP sync file')
+  }
+  if (parsed.version !== SYNC_VERSION) {
+    throw new Error(`Unsupported sync file version: ${parsed.version}`)
+  }
+  const { kdf } = parsed
+  if (!isRecord(kdf) || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' ||
+      typeof kdf.salt !== 'string' || !Number.isInteger(kdf.iterations) ||
+      typeof parsed.data !== 'string') {
+    throw new Error('The sync file is missing encryption parameters')
+  }
+  if (!isAcceptedKdfIterations(kdf.iterations)) {
+    throw new Error('The sync file uses unsupported key derivation settings')
+  }
+
+  return {
+    format: SYNC_FORMAT,
+    version: SYNC_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: kdf.iterations, salt: kdf.salt },
+    data: parsed.data
+  }
+}
+
+/**
+ * Decrypt the sync file and check every account in it
+ * An account this device can't read stops the sync, rather than being dropped here and then
+ * deleted from the server by the next upload
+ */
+async function openSyncFile(file: SyncFile, keyMaterial: ArrayBuffer): Promise<SyncPayload> {
+  let payload: unknown
+  try {
+    payload = JSON.parse(await openEnvelope(file.data, keyMaterial, SYNC_FORMAT))
+  } catch {
+    throw new Error('The sync file could not be decrypted, check the sync passphrase')
+  }
+
+  if (!isRecord(payload) || !Array.isArray(payload.accounts)) {
+    throw new Error('The sync file does not contain any accounts')
+  }
+
+  const accounts: TOTPAccount[] = []
+  for (const entry of payload.accounts) {
+    const account = sanitizeStoredAccount(entry)
+    if (!account || accounts.some(existing => existing.id === account.id)) {
+      throw new Error('The sync file contains an account this device cannot read; update the app and try again')
+    }
+    accounts.push(account)
+  }
+
+  const modifiedAt: Record<string, number> = {}
+  if (isRecord(payload.modifiedAt)) {
+    for (const [id, time] of Object.entries(payload.modifiedAt)) {
+      if (Number.isFinite(time)) {
+        modifiedAt[id] = time as number
+      }
+    }
+  }
+
+  return { accounts, modifiedAt }
+}
+
+async function createSyncFile(payload: SyncPayload, settings: SyncSettings): Promise<string> {
+  const file: SyncFile = {
+    format: SYNC_FORMAT,
+    version: SYNC_VERSION,
+    kdf: settings.kdf,
+    data: await sealEnvelope(JSON.stringify(payload), base64ToArrayBuffer(settings.keyMaterial), SYNC_FORMAT)
+  }
+  return JSON.stringify(file)
+}
+
+/**
+ * Connect to a sync target with the sync passphrase
+ * If another device already synced there, the passphrase must open its file
+ * @param {SyncTarget} target - Server and credentials
+ * @param {string} passphrase - Sync passphrase, the same on every device
+ * @returns {Promise<SyncSettings>} Settings to store in the vault
+ */
+export async function connectSync(target: SyncTarget, passphrase: string): Promise<SyncSettings> {
+  const remote = await downloadSyncFile(target)
+
+  if (!remote) {
+    const { kdf, keyMaterial } = await createPassphraseKeyMaterial(passphrase)
+    return { target, kdf, keyMaterial: arrayBufferToBase64(keyMaterial) }
+  }
+
+  const file = parseSyncFile(remote.contents)
+  const keyMaterial = await derivePassphraseSlotKeyMaterial(passphrase, file.kdf)
+  await openSyncFile(file, keyMaterial)
+  return { target, kdf: file.kdf, keyMaterial: arrayBufferToBase64(keyMaterial) }
+}
+
+/**
+ * Merge the accounts here with the sync file and upload the result
+ * Changes since the last sync win on either side; when both sides changed an account,
+ * the later change wins. On the first sync, accounts already on the server aren't duplicated
+ * @param {SyncSettings} settings - Connected sync target
+ * @param {SyncState} state - State left by the last sync
+ * @param {TOTPAccount[]} accounts - Accounts here
+ * @returns {Promise<SyncResult>} Merged accounts and the new sync state
+ */
+export async function syncAccounts(settings: SyncSettings, state: SyncState, accounts: TOTPAccount[]): Promise<SyncResult> {
+  const keyMaterial = base64ToArrayBuffer(settings.keyMaterial)
+  const base = new Map(Object.entries(state.base))
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const remote = await downloadSyncFile(settings.target)
+    const payload = remote
+      ? await openSyncFile(parseSyncFile(remote.contents), keyMaterial)
+      : { accounts: [], modifiedAt: {} }
+
+    const theirs = getAccountRecords(payload.accounts)
+    const ours = getAccountRecords(state.lastSyncedAt === null
+      ? accounts.filter(account => theirs.has(account.id) || !findDuplicateAccount(payload.accounts, account))
+      : accounts)
+
+    const now = Date.now()
+    const merged = mergeRecords(base, ours, theirs, payload.modifiedAt, state.pendingSince ?? 0)
+    const mergedAccounts = [...merged.values()].map(json => JSON.parse(json) as TOTPAccount)
+
+    if (!remote || !hasSameRecords(merged, theirs)) {
+      const modifiedAt: Record<string, number> = {}
+      for (const [id, json] of merged) {
+        modifiedAt[id] = theirs.get(id) === json ? payload.modifiedAt[id] ?? now : now
+      }
+
+      const contents = await createSyncFile({ accounts: mergedAccounts, modifiedAt }, settings)
+      if (!await uploadSyncFile(settings.target, contents, remote?.etag ?? null)) {
+        continue
+      }
+    }
+
+    return {
+      accounts: mergedAccounts,
+      state: { lastSyncedAt: now, base: Object.fromEntries(merged), pendingSince: null }
+    }
+  }
+
+  throw new Error('The sync file kept changing on the server, try again later')
+}
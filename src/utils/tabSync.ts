@@ -0,0 +1,77 @@
+/**
+ * Coordination between tabs sharing the vault, including the installed app
+ * Tabs tell each other about changes over a BroadcastChannel, and writes are serialised
+ * across tabs with the Web Locks API. Both are skipped where the browser lacks them,
+ * which leaves a single tab working as before
+ */
+
+export type TabMessage =
+  // Stored data under this key of a vault was written
+  | { type: 'changed', vaultId: string, key: string }
+  // Every vault was locked, or only this one, e.g. after its key was rotated. Keys are never
+  // sent: each tab unlocks a vault with its own prompt
+  | { type: 'locked', vaultId?: string }
+  | { type: 'keyring-changed', vaultId: string }
+  // A vault was created, renamed or deleted
+  | { type: 'vaults-changed' }
+  // The user is active in another tab, which counts for the idle timeout
+  | { type: 'activity' }
+
+const CHANNEL_NAME = 'my-totp-vault'
+const WRITE_LOCK_NAME = 'my-totp-vault-write'
+const SYNC_LOCK_NAME = 'my-totp-vault-sync'
+
+let channel: BroadcastChannel | null | undefined
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+  }
+  return channel
+}
+
+/**
+ * Send a message to every other tab of the app
+ */
+export function postTabMessage(message: TabMessage): void {
+  getChannel()?.postMessage(message)
+}
+
+/**
+ * Listen for messages from other tabs
+ * @returns {Function} Stops listening
+ */
+export function onTabMessage(listener: (message: TabMessage) => void): () => void {
+  const target = getChannel()
+  if (!target) return () => {}
+
+  const handleMessage = (event: MessageEvent<TabMessage>): void => listener(event.data)
+  target.addEventListener('message', handleMessage)
+  return () => target.removeEventListener('message', handleMessage)
+}
+
+/**
+ * Run a task while holding the vault write lock, so no other tab writes at the same time
+ * Not reentrant: a task must not wait for another locked task
+ */
+export function withVaultLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return task()
+  }
+  return navigator.locks.request(WRITE_LOCK_NAME, task)
+}
+
+/**
+ * Run a server sync, skipped if another tab is already running one
+ * Without Web Locks every tab syncs on its own, which conditional uploads keep safe
+ */
+export function withSyncLock(task: () => Promise<void>): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return task()
+  }
+  return navigator.locks.request(SYNC_LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    if (lock) {
+      await task()
+    }
+  })
+}
@@ -0,0 +1,120 @@
+/**
+ * Named vaults on one device, e.g. work and personal accounts, or one per person on a shared device
+ * Each vault has its own keyring and data key. The vault that existed before there were
+ * several keeps its storage keys; the others store theirs under a prefix. The list of vaults
+ * is kept in plain localStorage so it can be shown before anything is unlocked
+ */
+
+import type { StorageAdapter } from './storage'
+
+export const DEFAULT_VAULT_ID = 'default'
+export const DEFAULT_VAULT_NAME = 'My Accounts'
+export const MAX_VAULT_NAME_LENGTH = 40
+
+const VAULTS_STORAGE_KEY = 'vaults'
+const SELECTED_VAULT_STORAGE_KEY = 'selected-vault'
+const VAULT_KEY_PREFIX = 'vaults/'
+
+export interface VaultInfo {
+  id: string
+  name: string
+  createdAt: number
+}
+
+/**
+ * Get the prefix of a vault's storage keys
+ * @param {string} vaultId - ID of the vault
+ * @returns {string} Prefix, empty for the default vault
+ */
+export function getVaultKeyPrefix(vaultId: string): string {
+  return vaultId === DEFAULT_VAULT_ID ? '' : `${VAULT_KEY_PREFIX}${vaultId}/`
+}
+
+/**
+ * Wrap a storage adapter so it only sees one vault, with keys relative to the vault
+ * @param {StorageAdapter} adapter - Adapter for the whole device
+ * @param {string} vaultId - ID of the vault
+ */
+export function createVaultStorageAdapter(adapter: StorageAdapter, vaultId: string): StorageAdapter {
+  const prefix = getVaultKeyPrefix(vaultId)
+
+  return {
+    backend: adapter.backend,
+
+    get(key) {
+      return adapter.get(`${prefix}${key}`)
+    },
+
+    async entries(keyPrefix = '') {
+      return (await adapter.entries(`${prefix}${keyPrefix}`))
+        // The other vaults live inside the default vault's key space
+        .filter(([key]) => prefix !== '' || !key.startsWith(VAULT_KEY_PREFIX))
+        .map(([key, value]) => [key.substring(prefix.length), value])
+    },
+
+    write({ set = [], remove = [] }) {
+      return adapter.write({
+        set: set.map(([key, value]) => [`${prefix}${key}`, value]),
+        remove: remove.map(key => `${prefix}${key}`)
+      })
+    }
+  }
+}
+
+/**
+ * Check a vault name entered by the user
+ * @param {string} name - Name as entered
+ * @returns {string} Trimmed name
+ */
+export function normalizeVaultName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) {
+    throw new Error('Enter a name for the vault')
+  }
+  if (trimmed.length > MAX_VAULT_NAME_LENGTH) {
+    throw new Error(`Vault names can be at most ${MAX_VAULT_NAME_LENGTH} characters`)
+  }
+  return trimmed
+}
+
+/**
+ * Load the list of vaults
+ * @returns {VaultInfo[]} Stored vaults, or just the default vault if none were created yet
+ */
+export function loadVaults(): VaultInfo[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VAULTS_STORAGE_KEY) || 'null')
+    if (Array.isArray(stored) && stored.length > 0) {
+      return stored
+    }
+  } catch {
+    // Fall back to the default vault
+  }
+  return [{ id: DEFAULT_VAULT_ID, name: DEFAULT_VAULT_NAME, createdAt: 0 }]
+}
+
+/**
+ * Persist the list of vaults
+ * @param {VaultInfo[]} vaults - Vaults to store
+ */
+export function saveVaults(vaults: VaultInfo[]): void {
+  localStorage.setItem(VAULTS_STORAGE_KEY, JSON.stringify(vaults))
+}
+
+/**
+ * Get the vault that was selected last, so the app opens where the user left it
+ * @returns {string} ID of a vault in the list
+ */
+export function loadSelectedVaultId(): string {
+  const vaults = loadVaults()
+  const stored = localStorage.getItem(SELECTED_VAULT_STORAGE_KEY)
+  return vaults.some(vault => vault.id === stored) ? stored as string : vaults[0].id
+}
+
+/**
+ * Remember the selected vault for the next launch
+ * @param {string} vaultId - ID of the vault
+ */
+export function saveSelectedVaultId(vaultId: string): void {
+  localStorage.setItem(SELECTED_VAULT_STORAGE_KEY, vaultId)
+}
@@ -29,6 +29,25 @@ export async function isPasskeySupported(): Promise<boolean> {
   }
 }
 
+/**
+ * Check whether the browser reports support for the WebAuthn PRF extension
+ * @returns {Promise<boolean | null>} Support status, or null if the browser can't tell before a passkey is created
+ */
+export async function isPrfSupported(): Promise<boolean | null> {
+  if (!isWebAuthnSupported()) return false
+
+  // getClientCapabilities is only available in recent browsers
+  const credentialClass: typeof PublicKeyCredential & { getClientCapabilities?: () => Promise<Record<string, boolean>> } = PublicKeyCredential
+  if (!('getClientCapabilities' in credentialClass) || typeof credentialClass.getClientCapabilities !== 'function') return null
+
+  try {
+    const capabilities = await credentialClass.getClientCapabilities()
+    return typeof capabilities['extension:prf'] === 'boolean' ? capabilities['extension:prf'] : null
+  } catch {
+    return null
+  }
+}
+
 interface PasskeyCredential {
   id: string
   publicKey: ArrayBuffer
@@ -40,12 +59,26 @@ interface PasskeyCreationResult {
   keyMaterial: ArrayBuffer
 }
 
+interface PasskeyAuthenticationResult {
+  // ID of the credential the user authenticated with
+  credentialId: string
+  keyMaterial: ArrayBuffer
+}
+
+interface CreatePasskeyOptions {
+  // Credentials already enrolled for this vault, so the same authenticator isn't registered twice
+  excludeCredentialIds?: string[]
+  // Allow roaming authenticators such as security keys (backup passkeys)
+  allowCrossPlatform?: boolean
+}
+
 /**
  * Create a new passkey credential with PRF extension and return both credential info and key material
  * @param {string} username - Username for the credential
+ * @param {CreatePasskeyOptions} options - Options for enrolling additional passkeys
  * @returns {Promise<PasskeyCreationResult>} Created credential info and key material
  */
-export async function createPasskey(username: string = 'TOTP User'): Promise<PasskeyCreationResult> {
+export async function createPasskey(username: string = 'TOTP User', options: CreatePasskeyOptions = {}): Promise<PasskeyCreationResult> {
   if (!isWebAuthnSupported()) {
     throw new Error('WebAuthn is not supported in this browser')
   }
@@ -72,11 +105,18 @@ export async function createPasskey(username: string = 'TOTP User'): Promise<Pas
         { alg: -7, type: 'public-key' }, // ES256
         { alg: -257, type: 'public-key' }, // RS256
       ],
-      authenticatorSelection: {
+      authenticatorSelection: options.allowCrossPlatform ? {
+        userVerification: 'required',
+        residentKey: 'preferred',
+      } : {
         authenticatorAttachment: 'platform',
         userVerification: 'required',
         requireResidentKey: true,
       },
+      excludeCredentials: (options.excludeCredentialIds || []).map(id => ({
+        type: 'public-key',
+        id: base64urlToArrayBuffer(id),
+      })),
       timeout: 60000,
       attestation: 'none',
       extensions: {
@@ -121,10 +161,10 @@ export async function createPasskey(username: string = 'TOTP User'): Promise<Pas
 
 /**
  * Authenticate with existing passkey and derive stable key material using PRF
- * @param {string} credentialId - The credential ID to authenticate with
- * @returns {Promise<ArrayBuffer>} Stable key material derived from PRF extension
+ * @param {string[]} credentialIds - Credential IDs the user may authenticate with
+ * @returns {Promise<PasskeyAuthenticationResult>} Used credential ID and stable key material derived from PRF extension
  */
-export async function authenticateWithPasskey(credentialId?: string): Promise<ArrayBuffer> {
+export async function authenticateWithPasskey(credentialIds: string[] = []): Promise<PasskeyAuthenticationResult> {
   if (!isWebAuthnSupported()) {
     throw new Error('WebAuthn is not supported in this browser')
   }
@@ -135,10 +175,10 @@ export async function authenticateWithPasskey(credentialId?: string): Promise<Ar
   const getOptions: CredentialRequestOptions = {
     publicKey: {
       challenge: generateChallenge(), // Can use random challenge since we're using PRF
-      allowCredentials: credentialId ? [{
+      allowCredentials: credentialIds.map(id => ({
         type: 'public-key',
-        id: base64urlToArrayBuffer(credentialId),
-      }] : [],
+        id: base64urlToArrayBuffer(id),
+      })),
       userVerification: 'required',
       timeout: 60000,
       extensions: {
@@ -166,7 +206,10 @@ export async function authenticateWithPasskey(credentialId?: string): Promise<Ar
   console.log('Using PRF-derived key material')
   // Convert BufferSource to ArrayBuffer if needed
   const prfKey = prfResults.results.first
-  return prfKey instanceof ArrayBuffer ? prfKey : prfKey.buffer.slice(prfKey.byteOffset, prfKey.byteOffset + prfKey.byteLength)
+  return {
+    credentialId: credential.id,
+    keyMaterial: prfKey instanceof ArrayBuffer ? prfKey : prfKey.buffer.slice(prfKey.byteOffset, prfKey.byteOffset + prfKey.byteLength)
+  }
 }
 
 /**
@@ -204,18 +247,8 @@ export async function deriveKeyFromPasskey(keyMaterial: ArrayBuffer, salt: Uint8
 }
 
 /**
- * Store passkey credential info in localStorage
- * @param {PasskeyCredential} credential - Credential to store
- */
-export function storePasskeyCredential(credential: PasskeyCredential): void {
-  localStorage.setItem('passkey-credential', JSON.stringify({
-    id: credential.id,
-    userHandle: credential.userHandle,
-  }))
-}
-
-/**
- * Get stored passkey credential info
+ * Get the passkey credential stored by versions that supported a single passkey
+ * New vaults keep their credentials in the keyring instead
  * @returns {object | null} Stored credential info or null
  */
 export function getStoredPasskeyCredential(): { id: string; userHandle: string } | null {
@@ -228,3 +261,10 @@ export function getStoredPasskeyCredential(): { id: string; userHandle: string }
     return null
   }
 }
+
+/**
+ * Remove the single-passkey credential record once it has been moved into the keyring
+ */
+export function clearStoredPasskeyCredential(): void {
+  localStorage.removeItem('passkey-credential')
+}
@@ -21,7 +21,10 @@ export default defineConfig(({ command }) => {
           enabled: true,
         },
         workbox: {
-          globPatterns: ['**/*.{js,css,html,ico,png,svg}']
+          // Also precaches the issuer icons in public/icons/issuers so they are available offline
+          globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+          // Receives text and images shared to the installed app
+          importScripts: ['share-target-sw.js']
         },
         manifest: {
           name: 'TOTP Authenticator',
@@ -36,7 +39,23 @@ export default defineConfig(({ command }) => {
               sizes: 'any',
               type: 'image/svg+xml'
             }
-          ]
+          ],
+          // Only web+ schemes can be claimed by web apps; see src/utils/launch.ts
+          protocol_handlers: [
+            { protocol: 'web+otpauth', url: '/?uri=%s' },
+            { protocol: 'web+otpauthmigration', url: '/?uri=%s' }
+          ],
+          share_target: {
+            action: '/share-target',
+            method: 'POST',
+            enctype: 'multipart/form-data',
+            params: {
+              title: 'title',
+              text: 'text',
+              url: 'url',
+              files: [{ name: 'image', accept: ['image/*'] }]
+            }
+          }
         }
       })
     ],